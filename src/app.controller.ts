@@ -10,6 +10,12 @@ import {
   UploadedFile,
   BadRequestException,
   Delete,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+  Headers,
+  Patch,
+  ValidationPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { AppService } from './app.service';
@@ -21,6 +27,36 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { ChatGateway } from './gateways/chat.gateway';
+import { AuthService } from './services/auth.service';
+import {
+  ConversationAccessError,
+  ConversationAccessService,
+} from './services/conversation-access.service';
+import { GroupService } from './services/group.service';
+import { MessageReactionsService } from './services/message-reactions.service';
+import { MessageReceiptsService } from './services/message-receipts.service';
+import { ThreadsService } from './services/threads.service';
+import { PinsService } from './services/pins.service';
+import { BookmarksService } from './services/bookmarks.service';
+import { ScheduledMessagesService } from './services/scheduled-messages.service';
+import { MessageExpirationService } from './services/message-expiration.service';
+import { SyncService } from './services/sync.service';
+import { PollsService } from './services/polls.service';
+import { SearchService } from './services/search.service';
+import { DraftsService } from './services/drafts.service';
+import {
+  ScheduleMessageDto,
+  UpdateScheduledMessageDto,
+} from './dto/send-message.dto';
+import { MessageError } from './utils/message-ack';
+import { buildMessageBody } from './utils/message-types';
+import { ConfigService } from '@nestjs/config';
+import {
+  decodeMessageCursor,
+  encodeMessageCursor,
+} from './utils/message-cursor';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
 
 @Controller()
 export class AppController {
@@ -30,8 +66,24 @@ export class AppController {
     private readonly redisService: RedisService,
     private readonly fileStorageService: FileStorageService,
     private readonly chatGateway: ChatGateway,
+    private readonly authService: AuthService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly groupService: GroupService,
+    private readonly configService: ConfigService,
+    private readonly messageReactionsService: MessageReactionsService,
+    private readonly messageReceiptsService: MessageReceiptsService,
+    private readonly threadsService: ThreadsService,
+    private readonly pinsService: PinsService,
+    private readonly bookmarksService: BookmarksService,
+    private readonly scheduledMessagesService: ScheduledMessagesService,
+    private readonly messageExpirationService: MessageExpirationService,
+    private readonly syncService: SyncService,
+    private readonly pollsService: PollsService,
+    private readonly searchService: SearchService,
+    private readonly draftsService: DraftsService,
   ) {}
 
+  @Public()
   @Get()
   serveIndex(@Res() res: Response) {
     const indexPath = path.join(__dirname, '../public/index.html');
@@ -42,6 +94,45 @@ export class AppController {
     }
   }
 
+  @Public()
+  @Post('api/auth/token')
+  async issueToken(
+    @Headers('x-api-key') apiKey: string,
+    @Body() data: { userId: string },
+  ) {
+    this.assertApiKey(apiKey);
+
+    if (!data?.userId) {
+      throw new BadRequestException('userId es requerido');
+    }
+
+    return this.authService.issueTokens(data.userId);
+  }
+
+  @Public()
+  @Post('api/auth/refresh')
+  async refreshToken(@Body() data: { refreshToken: string }) {
+    if (!data?.refreshToken) {
+      throw new BadRequestException('refreshToken es requerido');
+    }
+
+    return this.authService.refreshTokens(data.refreshToken);
+  }
+
+  @Post('api/auth/logout')
+  async logout(
+    @Headers('authorization') authorization: string,
+    @Body() data: { refreshToken?: string },
+  ) {
+    const [, accessToken] = authorization.split(' ');
+    await this.authService.revokeToken(accessToken);
+    if (data?.refreshToken) {
+      await this.authService.revokeToken(data.refreshToken);
+    }
+
+    return { success: true, message: 'Sesión cerrada correctamente' };
+  }
+
   @Get('api/users')
   async getUsers() {
     const users = await this.dynamoDBService.getAllUsers();
@@ -74,7 +165,15 @@ export class AppController {
   }
 
   @Post('api/users')
-  async createUser(@Body() userData: any) {
+  async createUser(
+    @CurrentUser() currentUserId: string,
+    @Body() userData: any,
+  ) {
+    if (userData.id && userData.id !== currentUserId) {
+      throw new ForbiddenException('Solo puedes registrar tu propio usuario');
+    }
+    userData.id = currentUserId;
+
     const existingUser = await this.dynamoDBService.getUser(userData.id);
 
     if (existingUser) {
@@ -88,15 +187,19 @@ export class AppController {
 
   @Post('api/conversations')
   async createConversation(
+    @CurrentUser() createdBy: string,
     @Body()
     data: {
       type: string;
       name?: string;
       description?: string;
       participants: string[];
-      createdBy: string;
     },
   ) {
+    data.participants = Array.from(
+      new Set([createdBy, ...(data.participants || [])]),
+    );
+
     if (data.type === 'private' && data.participants.length === 2) {
       const existingConversation =
         await this.dynamoDBService.findPrivateConversation(
@@ -116,7 +219,7 @@ export class AppController {
       name: data.name,
       description: data.description,
       participants: data.participants,
-      createdBy: data.createdBy,
+      createdBy,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -128,12 +231,23 @@ export class AppController {
         unreadCount: 0,
         lastReadAt: new Date().toISOString(),
         isActive: true,
+        role:
+          data.type === 'group' && userId === createdBy ? 'owner' : 'member',
       });
     }
 
+    if (data.type === 'group') {
+      await this.chatGateway.recordGroupEvent(
+        conversationData,
+        'group_created',
+        createdBy,
+        data.participants.filter((userId) => userId !== createdBy),
+      );
+    }
+
     const creatorParticipant = await this.dynamoDBService.getParticipant(
       conversationId,
-      data.createdBy,
+      createdBy,
     );
 
     return {
@@ -146,19 +260,24 @@ export class AppController {
   @Post('api/conversations/:id/participants')
   async addParticipant(
     @Param('id') conversationId: string,
-    @Body() data: { userId: string; addedBy: string },
+    @Body() data: { userId: string },
+    @CurrentUser() addedBy: string,
   ) {
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
     if (!conversation) {
-      throw new Error('Conversation not found');
+      throw new NotFoundException('Conversación no encontrada');
     }
 
-    await this.dynamoDBService.addParticipant(conversationId, data.userId, {
-      unreadCount: 0,
-      lastReadAt: new Date().toISOString(),
-      isActive: true,
-    });
+    await this.withConversationAccess(() =>
+      this.conversationAccessService.assertGroupPermission(
+        conversationId,
+        addedBy,
+        'add_member',
+      ),
+    );
+
+    await this.chatGateway.addUserToGroup(conversation, data.userId, addedBy);
 
     return { success: true, conversationId, userId: data.userId };
   }
@@ -167,8 +286,7 @@ export class AppController {
   async removeParticipant(
     @Param('id') conversationId: string,
     @Param('userId') userId: string,
-    @Body() body?: { removedBy?: string },
-    @Query('removedBy') removedByQuery?: string,
+    @CurrentUser() removedBy: string,
   ) {
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
@@ -193,29 +311,36 @@ export class AppController {
     const participantsBefore =
       await this.dynamoDBService.getConversationParticipants(conversationId);
 
-    // Determinar quién está eliminando: si removedBy está en el body o query, es un admin eliminando a otro usuario
-    // Si no, es el mismo usuario saliendo (auto-salida)
-    const removedBy = body?.removedBy || removedByQuery || userId;
+    // Quien elimina es el usuario autenticado; si coincide con userId es una auto-salida
     const isSelfRemoval = removedBy === userId;
 
-    const originalCreatedBy = conversation.createdBy;
-    const isOriginalCreator = originalCreatedBy === userId;
+    if (!isSelfRemoval) {
+      await this.withConversationAccess(() =>
+        this.conversationAccessService.assertGroupPermission(
+          conversationId,
+          removedBy,
+          'remove_member',
+          userId,
+        ),
+      );
+    }
+
+    const isOriginalCreator =
+      conversation.createdBy === userId || participant.role === 'owner';
     let newCreatorId: string | null = null;
 
     if (isOriginalCreator && participantsBefore.length > 1) {
-      const otherParticipant = participantsBefore.find(
-        (p) => p.userId !== userId,
+      newCreatorId = await this.groupService.transferOwnership(
+        conversationId,
+        userId,
+        participantsBefore,
       );
-      if (otherParticipant?.userId) {
-        newCreatorId = otherParticipant.userId;
-        await this.dynamoDBService.updateConversationCreatedBy(
-          conversationId,
-          otherParticipant.userId,
-        );
-      }
     }
 
     await this.dynamoDBService.removeParticipant(conversationId, userId);
+    await this.conversationAccessService.invalidate(conversationId, [userId]);
+    await this.bookmarksService.invalidateConversation(userId, conversationId);
+    this.chatGateway.leaveConversationRoom(conversationId, [userId]);
 
     await new Promise((resolve) => setTimeout(resolve, 100));
     const updatedParticipants =
@@ -259,6 +384,17 @@ export class AppController {
           await this.dynamoDBService.deleteConversationMessages(conversationId);
 
         await this.dynamoDBService.deleteConversation(conversationId);
+        const remainingParticipantIds = remainingParticipants.map(
+          (p) => p.userId as string,
+        );
+        await this.conversationAccessService.invalidate(
+          conversationId,
+          remainingParticipantIds,
+        );
+        this.chatGateway.leaveConversationRoom(
+          conversationId,
+          remainingParticipantIds,
+        );
 
         // Obtener los participantes activos antes de que el último saliera
         // (excluyendo al usuario que acaba de salir)
@@ -296,6 +432,29 @@ export class AppController {
       }
     }
 
+    if (isSelfRemoval) {
+      await this.chatGateway.recordGroupEvent(
+        conversation,
+        'member_left',
+        userId,
+      );
+    } else {
+      await this.chatGateway.recordGroupEvent(
+        conversation,
+        'member_removed',
+        removedBy,
+        [userId],
+      );
+    }
+    if (isOriginalCreator && newCreatorId) {
+      await this.chatGateway.recordGroupEvent(
+        conversation,
+        'ownership_transferred',
+        removedBy,
+        [newCreatorId],
+      );
+    }
+
     const user = await this.dynamoDBService.getUser(userId);
     const userName = user?.name || 'Usuario';
 
@@ -397,37 +556,225 @@ export class AppController {
     };
   }
 
+  @Patch('api/conversations/:id')
+  async updateGroup(
+    @Param('id') conversationId: string,
+    @Body() data: { name?: string; description?: string },
+    @CurrentUser() userId: string,
+  ) {
+    const { eventData, participantIds } = await this.withConversationAccess(
+      () => this.groupService.renameGroup(conversationId, userId, data),
+    );
+    this.chatGateway.emitGroupUpdated(eventData, participantIds);
+    return eventData;
+  }
+
+  @Patch('api/conversations/:id/message-ttl')
+  async updateMessageTtl(
+    @Param('id') conversationId: string,
+    @Body() data: { messageTtl: number | null },
+    @CurrentUser() userId: string,
+  ) {
+    const { eventData, participantIds } = await this.withConversationAccess(
+      () =>
+        this.messageExpirationService.setMessageTtl(
+          conversationId,
+          userId,
+          data?.messageTtl ?? null,
+        ),
+    );
+    this.chatGateway.emitMessageTtlUpdated(eventData, participantIds);
+    return eventData;
+  }
+
+  @Post('api/conversations/:id/participants/:userId/promote')
+  async promoteParticipant(
+    @Param('id') conversationId: string,
+    @Param('userId') userId: string,
+    @CurrentUser() actorId: string,
+  ) {
+    const { eventData, participantIds } = await this.withConversationAccess(
+      () =>
+        this.groupService.updateParticipantRole(
+          conversationId,
+          actorId,
+          userId,
+          'admin',
+        ),
+    );
+    this.chatGateway.emitParticipantRoleUpdated(eventData, participantIds);
+    return eventData;
+  }
+
+  @Post('api/conversations/:id/participants/:userId/demote')
+  async demoteParticipant(
+    @Param('id') conversationId: string,
+    @Param('userId') userId: string,
+    @CurrentUser() actorId: string,
+  ) {
+    const { eventData, participantIds } = await this.withConversationAccess(
+      () =>
+        this.groupService.updateParticipantRole(
+          conversationId,
+          actorId,
+          userId,
+          'member',
+        ),
+    );
+    this.chatGateway.emitParticipantRoleUpdated(eventData, participantIds);
+    return eventData;
+  }
+
   @Get('api/conversations/user/:userId')
-  async getUserConversations(@Param('userId') userId: string) {
+  async getUserConversations(
+    @Param('userId') userId: string,
+    @CurrentUser() currentUserId: string,
+  ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException(
+        'No puedes consultar conversaciones de otro usuario',
+      );
+    }
+
     const conversations =
       await this.dynamoDBService.getUserConversations(userId);
-    return conversations;
+    return this.draftsService.attachDrafts(userId, conversations);
+  }
+
+  @Get('api/sync')
+  async sync(@Query('since') since: string, @CurrentUser() userId: string) {
+    return this.syncService.getChangesSince(userId, since || undefined);
+  }
+
+  @Get('api/search/messages')
+  async searchMessages(
+    @CurrentUser() userId: string,
+    @Query('q') q: string,
+    @Query('conversationId') conversationId?: string,
+    @Query('senderId') senderId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageRequest = this.parseMessagePageRequest(cursor, undefined, limit);
+
+    return this.withConversationAccess(() =>
+      this.searchService.searchMessages(
+        userId,
+        q,
+        { conversationId, senderId, from, to },
+        pageRequest,
+      ),
+    );
+  }
+
+  @Get('api/conversations/:id/pins')
+  async getPinnedMessages(
+    @Param('id') conversationId: string,
+    @CurrentUser() userId: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+
+    return {
+      conversationId,
+      pins: await this.pinsService.getPins(conversationId),
+    };
+  }
+
+  @Post('api/conversations/:id/scheduled-messages')
+  async scheduleMessage(
+    @Param('id') conversationId: string,
+    @Body(new ValidationPipe({ whitelist: true })) data: ScheduleMessageDto,
+    @CurrentUser() userId: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+    return this.scheduledMessagesService.schedule(conversationId, userId, data);
+  }
+
+  @Get('api/conversations/:id/scheduled-messages')
+  async getScheduledMessages(
+    @Param('id') conversationId: string,
+    @CurrentUser() userId: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+    return {
+      scheduledMessages: await this.scheduledMessagesService.list(
+        conversationId,
+        userId,
+      ),
+    };
+  }
+
+  @Patch('api/conversations/:id/scheduled-messages/:scheduleId')
+  async updateScheduledMessage(
+    @Param('id') conversationId: string,
+    @Param('scheduleId') scheduleId: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    data: UpdateScheduledMessageDto,
+    @CurrentUser() userId: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+    return this.scheduledMessagesService.update(
+      conversationId,
+      scheduleId,
+      userId,
+      data,
+    );
+  }
+
+  @Delete('api/conversations/:id/scheduled-messages/:scheduleId')
+  async cancelScheduledMessage(
+    @Param('id') conversationId: string,
+    @Param('scheduleId') scheduleId: string,
+    @CurrentUser() userId: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+    return this.scheduledMessagesService.cancel(
+      conversationId,
+      scheduleId,
+      userId,
+    );
   }
 
   @Post('api/conversations/:id/mark-as-read')
   async markConversationAsRead(
     @Param('id') conversationId: string,
-    @Body() data: { userId: string },
+    @CurrentUser() userId: string,
   ) {
+    await this.assertConversationAccess(conversationId, userId);
+
+    const participant = await this.dynamoDBService.getParticipant(
+      conversationId,
+      userId,
+    );
+
     await this.dynamoDBService.updateParticipantReadStatus(
       conversationId,
-      data.userId,
+      userId,
       0,
       new Date().toISOString(),
     );
 
     this.chatGateway.server
-      .to(`user:${data.userId}`)
+      .to(`user:${userId}`)
       .emit('messages_marked_as_read', {
         conversationId,
-        userId: data.userId,
+        userId,
         timestamp: new Date().toISOString(),
       });
 
+    const updates = await this.messageReceiptsService.markConversationRead(
+      conversationId,
+      userId,
+      participant?.lastReadAt || new Date(0).toISOString(),
+    );
+    this.chatGateway.emitMessagesRead(updates);
+
     return {
       success: true,
       conversationId,
-      userId: data.userId,
+      userId,
       message: 'Mensajes marcados como leídos',
     };
   }
@@ -435,29 +782,121 @@ export class AppController {
   @Get('api/messages/:conversationId')
   async getConversationMessages(
     @Param('conversationId') conversationId: string,
+    @CurrentUser() userId: string,
+    @Query('before') before?: string,
+    @Query('after') after?: string,
+    @Query('limit') limit?: string,
+  ) {
+    await this.assertConversationAccess(conversationId, userId);
+
+    const pageRequest = this.parseMessagePageRequest(before, after, limit);
+    const { items, hasMore } =
+      await this.dynamoDBService.getConversationMessagesPage(
+        conversationId,
+        pageRequest,
+      );
+
+    return this.buildMessagePage(items, hasMore, pageRequest, userId);
+  }
+
+  @Get('api/messages/:id/thread')
+  async getThread(
+    @Param('id') messageId: string,
+    @CurrentUser() userId: string,
+    @Query('before') before?: string,
+    @Query('after') after?: string,
+    @Query('limit') limit?: string,
   ) {
-    const messages =
-      await this.dynamoDBService.getConversationMessages(conversationId);
-    return messages.sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    const message = await this.dynamoDBService.getMessage(messageId);
+    if (!message) {
+      throw new NotFoundException('Mensaje no encontrado');
+    }
+
+    await this.assertConversationAccess(message.conversationId, userId);
+
+    const root = await this.threadsService.resolveRoot(message);
+    const pageRequest = this.parseMessagePageRequest(before, after, limit);
+    const { items, hasMore } = await this.dynamoDBService.getThreadRepliesPage(
+      root,
+      pageRequest,
     );
+    const page = await this.buildMessagePage(
+      items,
+      hasMore,
+      pageRequest,
+      userId,
+    );
+
+    return {
+      root: (await this.messageReactionsService.attachReactions([root]))[0],
+      replyCount: root.replyCount || 0,
+      lastReplyAt: root.lastReplyAt || null,
+      isFollowing: await this.dynamoDBService.isThreadFollower(root.id, userId),
+      replies: page.messages,
+      cursors: page.cursors,
+      hasMore: page.hasMore,
+    };
+  }
+
+  @Get('api/messages/:id/receipts')
+  async getMessageReceipts(
+    @Param('id') messageId: string,
+    @CurrentUser() userId: string,
+  ) {
+    const message = await this.dynamoDBService.getMessage(messageId);
+    if (!message) {
+      throw new NotFoundException('Mensaje no encontrado');
+    }
+
+    await this.assertConversationAccess(message.conversationId, userId);
+
+    return this.messageReceiptsService.getReceipts(message);
+  }
+
+  @Get('api/messages/:id/history')
+  async getMessageHistory(
+    @Param('id') messageId: string,
+    @CurrentUser() userId: string,
+  ) {
+    const message = await this.dynamoDBService.getMessage(messageId);
+    if (!message) {
+      throw new NotFoundException('Mensaje no encontrado');
+    }
+
+    await this.assertConversationAccess(message.conversationId, userId);
+
+    const revisions = await this.dynamoDBService.getMessageRevisions(messageId);
+
+    return {
+      messageId,
+      conversationId: message.conversationId,
+      revisionCount: message.revisionCount || 0,
+      revisions: revisions.map((revision) => ({
+        revision: revision.revision,
+        content: revision.content,
+        editedAt: revision.editedAt,
+        editedBy: revision.editedBy,
+      })),
+    };
   }
 
   @Post('api/upload')
   @UseInterceptors(FileInterceptor('file'))
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
-    @Body() body: { conversationId: string; senderId: string },
+    @Body() body: { conversationId: string },
+    @CurrentUser() senderId: string,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    if (!body.conversationId || !body.senderId) {
-      throw new BadRequestException('conversationId and senderId are required');
+    if (!body.conversationId) {
+      throw new BadRequestException('conversationId is required');
     }
 
+    await this.assertConversationAccess(body.conversationId, senderId);
+
     const validation = this.fileStorageService.validateFile(file);
     if (!validation.isValid) {
       throw new BadRequestException(validation.error);
@@ -465,78 +904,47 @@ export class AppController {
 
     const fileData = await this.fileStorageService.uploadFile(file);
 
+    let messageBody: { content: string; payload?: Record<string, any> };
+    try {
+      messageBody = buildMessageBody('file', { payload: fileData });
+    } catch (error) {
+      await this.fileStorageService.deleteFile(fileData.fileUrl);
+      if (error instanceof MessageError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
     const messageId = uuidv4();
     const timestamp = new Date().toISOString();
 
     const messageData = {
       id: messageId,
       conversationId: body.conversationId,
-      senderId: body.senderId,
-      content: JSON.stringify(fileData),
+      senderId,
+      content: messageBody.content,
       messageType: 'file',
+      payload: messageBody.payload,
+      fileUrl: fileData.fileUrl,
       timestamp,
       isEdited: false,
       isDeleted: false,
     };
 
-    await this.dynamoDBService.createMessage(messageData);
-
-    const conversation = await this.dynamoDBService.getConversation(
-      body.conversationId,
-    );
-    const participants = await this.dynamoDBService.getConversationParticipants(
-      body.conversationId,
-    );
-
-    this.chatGateway.server
-      .to(`conversation:${body.conversationId}`)
-      .emit('message_received', messageData);
-
-    const onlineUsers = await this.redisService.getOnlineUsers();
-
-    for (const participant of participants) {
-      if (participant.userId === body.senderId) continue;
-
-      const isOnline = onlineUsers.includes(participant.userId);
-      const currentUnreadCount = participant.unreadCount || 0;
-
-      await this.dynamoDBService.updateParticipantReadStatus(
-        body.conversationId,
-        participant.userId,
-        currentUnreadCount + 1,
-        participant.lastReadAt || new Date(0).toISOString(),
-      );
-
-      if (isOnline) {
-        const unreadEvent = {
-          type: conversation.type,
-          conversationId: body.conversationId,
-          senderId: body.senderId,
-          messageId,
-          content: fileData.fileName,
-          timestamp,
-        };
-
-        this.chatGateway.server
-          .to(`user:${participant.userId}`)
-          .emit(
-            conversation.type === 'private'
-              ? 'unread_message_private'
-              : 'unread_message_group',
-            unreadEvent,
-          );
-      }
-    }
+    const message = await this.dynamoDBService.createMessage(messageData);
+    await this.chatGateway.deliverMessage(message, messageBody.content);
 
     return {
       ...fileData,
       messageId,
       conversationId: body.conversationId,
-      senderId: body.senderId,
-      timestamp,
+      senderId,
+      timestamp: message.timestamp,
+      ...(message.expiresAt ? { expiresAt: message.expiresAt } : {}),
     };
   }
 
+  @Public()
   @Get('api/files/:fileName')
   async serveFile(@Param('fileName') fileName: string, @Res() res: Response) {
     try {
@@ -561,11 +969,8 @@ export class AppController {
 
       try {
         const message = await this.dynamoDBService.getMessageByFileUrl(fileUrl);
-        if (message && message.content) {
-          const fileData = JSON.parse(message.content);
-          if (fileData.fileName) {
-            downloadFileName = fileData.fileName;
-          }
+        if (message?.payload?.fileName) {
+          downloadFileName = message.payload.fileName;
         }
       } catch (error) {}
 
@@ -589,6 +994,7 @@ export class AppController {
     }
   }
 
+  @Public()
   @Get('api/files/avatars/:userId/:fileName')
   serveAvatarFile(
     @Param('userId') userId: string,
@@ -638,6 +1044,113 @@ export class AppController {
     }
   }
 
+  private parseMessagePageRequest(
+    before?: string,
+    after?: string,
+    limit?: string,
+  ) {
+    if (before && after) {
+      throw new BadRequestException('Usa solo uno de before o after');
+    }
+
+    const defaultPageSize = this.configService.get('app.messages.pageSize');
+    const maxPageSize = this.configService.get('app.messages.maxPageSize');
+    const pageSize = limit ? parseInt(limit, 10) : defaultPageSize;
+    if (isNaN(pageSize) || pageSize < 1 || pageSize > maxPageSize) {
+      throw new BadRequestException(
+        `limit debe ser un número entre 1 y ${maxPageSize}`,
+      );
+    }
+
+    const cursor = before || after;
+    const startAfter = cursor ? decodeMessageCursor(cursor) : undefined;
+    if (startAfter === null) {
+      throw new BadRequestException('Cursor inválido');
+    }
+
+    return {
+      limit: pageSize as number,
+      direction: (after ? 'newer' : 'older') as 'older' | 'newer',
+      startAfter,
+      before,
+      after,
+    };
+  }
+
+  private async buildMessagePage(
+    items: any[],
+    hasMore: boolean,
+    pageRequest: {
+      direction: 'older' | 'newer';
+      before?: string;
+      after?: string;
+    },
+    userId: string,
+  ) {
+    // La respuesta siempre va en orden cronológico ascendente
+    const ordered = pageRequest.direction === 'older' ? items.reverse() : items;
+    const oldest = ordered[0];
+    const newest = ordered[ordered.length - 1];
+
+    // Los cursores se calculan antes de quitar los mensajes ocultos por el
+    // usuario para que una página completamente oculta no detenga el scroll
+    const hiddenIds = await this.dynamoDBService.getHiddenMessageIds(
+      ordered.map((message) => message.id),
+      userId,
+    );
+    const messages = await this.pollsService.attachResults(
+      await this.messageReactionsService.attachReactions(
+        ordered.filter((message) => !hiddenIds.has(message.id)),
+      ),
+      userId,
+    );
+
+    return {
+      messages,
+      cursors: {
+        before: oldest
+          ? encodeMessageCursor(oldest)
+          : pageRequest.before || null,
+        after: newest ? encodeMessageCursor(newest) : pageRequest.after || null,
+      },
+      hasMore,
+    };
+  }
+
+  private async assertConversationAccess(
+    conversationId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.withConversationAccess(() =>
+      this.conversationAccessService.assertParticipant(conversationId, userId),
+    );
+  }
+
+  private async withConversationAccess<T>(
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ConversationAccessError)) {
+        throw error;
+      }
+      if (error.code === 'CONVERSATION_NOT_FOUND') {
+        throw new NotFoundException(error.message);
+      }
+      if (error.code === 'NOT_A_GROUP') {
+        throw new BadRequestException(error.message);
+      }
+      throw new ForbiddenException(error.message);
+    }
+  }
+
+  private assertApiKey(apiKey: string) {
+    if (!this.authService.isValidApiKey(apiKey)) {
+      throw new UnauthorizedException('API key inválida');
+    }
+  }
+
   private getMimeType(fileName: string): string {
     const ext = path.extname(fileName).toLowerCase();
     const mimeTypes: { [key: string]: string } = {
@@ -659,41 +1172,130 @@ export class AppController {
     return mimeTypes[ext] || 'application/octet-stream';
   }
 
-  @Get('/api/users')
-  async getAllUsers() {
+  /**
+   * Rutas de administración (recorren o borran tablas completas): solo para
+   * el backend de confianza, con `x-api-key`.
+   */
+  @Public()
+  @Get('/api/admin/users')
+  async getAllUsers(@Headers('x-api-key') apiKey: string) {
+    this.assertApiKey(apiKey);
     return await this.dynamoDBService.getAllUsers();
   }
 
+  @Public()
   @Delete('/api/users/:id')
-  async deleteUser(@Param('id') id: string) {
+  async deleteUser(
+    @Headers('x-api-key') apiKey: string,
+    @Param('id') id: string,
+  ) {
+    this.assertApiKey(apiKey);
     await this.dynamoDBService.deleteUser(id);
     return { message: 'Usuario eliminado correctamente' };
   }
 
+  @Public()
   @Get('/api/conversations')
-  async getAllConversations() {
+  async getAllConversations(@Headers('x-api-key') apiKey: string) {
+    this.assertApiKey(apiKey);
     return await this.dynamoDBService.getAllConversations();
   }
 
   @Delete('/api/conversations/:id')
-  async deleteConversation(@Param('id') id: string) {
+  async deleteConversation(
+    @Param('id') id: string,
+    @CurrentUser() userId: string,
+  ) {
+    const conversation = await this.dynamoDBService.getConversation(id);
+    if (conversation?.type === 'group') {
+      await this.withConversationAccess(() =>
+        this.conversationAccessService.assertGroupPermission(
+          id,
+          userId,
+          'delete',
+        ),
+      );
+    } else {
+      await this.assertConversationAccess(id, userId);
+    }
+
+    // Se da de baja a todos para que la caché de pertenencia no siga dando
+    // acceso a la conversación eliminada
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(id);
+    const participantIds = participants.map((p) => p.userId as string);
+    for (const participantId of participantIds) {
+      await this.dynamoDBService.removeParticipant(id, participantId);
+    }
     await this.dynamoDBService.deleteConversation(id);
+    await this.conversationAccessService.invalidate(id, participantIds);
+    this.chatGateway.leaveConversationRoom(id, participantIds);
     return { message: 'Conversación eliminada correctamente' };
   }
 
+  @Public()
   @Get('/api/messages')
-  async getAllMessages() {
+  async getAllMessages(@Headers('x-api-key') apiKey: string) {
+    this.assertApiKey(apiKey);
     return await this.dynamoDBService.getAllMessages();
   }
 
+  /**
+   * Tarea de mantenimiento (recorre toda la tabla de mensajes): solo para el
+   * backend de confianza, con `x-api-key`.
+   */
+  @Public()
+  @Delete('/api/messages/tombstones')
+  async purgeDeletedMessages(
+    @Headers('x-api-key') apiKey: string,
+    @Query('olderThanDays') olderThanDays?: string,
+  ) {
+    this.assertApiKey(apiKey);
+
+    const retentionDays = olderThanDays
+      ? parseInt(olderThanDays, 10)
+      : this.configService.get('app.messages.tombstoneRetentionDays') || 30;
+    if (isNaN(retentionDays) || retentionDays < 0) {
+      throw new BadRequestException(
+        'olderThanDays debe ser un número mayor o igual a 0',
+      );
+    }
+
+    const cutoff = new Date(
+      Date.now() - retentionDays * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    const tombstones =
+      await this.dynamoDBService.getDeletedMessagesBefore(cutoff);
+    for (const message of tombstones) {
+      await this.dynamoDBService.deleteMessage(message.id);
+    }
+
+    return {
+      message: 'Mensajes eliminados purgados correctamente',
+      deletedCount: tombstones.length,
+      cutoff,
+    };
+  }
+
+  @Public()
   @Delete('/api/messages/:id')
-  async deleteMessage(@Param('id') id: string) {
+  async deleteMessage(
+    @Headers('x-api-key') apiKey: string,
+    @Param('id') id: string,
+  ) {
+    this.assertApiKey(apiKey);
+    const message = await this.dynamoDBService.getMessage(id);
     await this.dynamoDBService.deleteMessage(id);
+    if (message) {
+      await this.pinsService.removePin(message.conversationId, id);
+    }
     return { message: 'Mensaje eliminado correctamente' };
   }
 
+  @Public()
   @Delete('/api/messages')
-  async deleteAllMessages() {
+  async deleteAllMessages(@Headers('x-api-key') apiKey: string) {
+    this.assertApiKey(apiKey);
     try {
       const deletedCount = await this.dynamoDBService.deleteAllMessages();
       return {
@@ -707,8 +1309,13 @@ export class AppController {
     }
   }
 
+  @Public()
   @Delete('/api/messages/batch/:batchSize')
-  async deleteMessagesInBatches(@Param('batchSize') batchSize: string) {
+  async deleteMessagesInBatches(
+    @Headers('x-api-key') apiKey: string,
+    @Param('batchSize') batchSize: string,
+  ) {
+    this.assertApiKey(apiKey);
     try {
       const batchSizeNum = parseInt(batchSize, 10);
       if (isNaN(batchSizeNum) || batchSizeNum < 1 || batchSizeNum > 25) {
@@ -731,12 +1338,81 @@ export class AppController {
     }
   }
 
+  @Get('api/users/:id/bookmarks')
+  async getBookmarks(
+    @Param('id') userId: string,
+    @CurrentUser() currentUserId: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('Solo puedes ver tus mensajes guardados');
+    }
+
+    const pageRequest = this.parseMessagePageRequest(cursor, undefined, limit);
+    const { items, hasMore } = await this.dynamoDBService.getUserBookmarksPage(
+      userId,
+      pageRequest,
+    );
+    const last = items[items.length - 1];
+
+    return {
+      bookmarks: await this.bookmarksService.attachDetails(userId, items),
+      cursor: last
+        ? encodeMessageCursor({
+            id: last.messageId,
+            timestamp: last.bookmarkedAt,
+          })
+        : null,
+      hasMore,
+    };
+  }
+
+  @Post('api/users/:id/bookmarks/:messageId')
+  async addBookmark(
+    @Param('id') userId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() currentUserId: string,
+  ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('Solo puedes guardar en tu propia lista');
+    }
+
+    const message = await this.dynamoDBService.getMessage(messageId);
+    if (!message || message.isDeleted) {
+      throw new NotFoundException('Mensaje no encontrado');
+    }
+
+    return this.withConversationAccess(() =>
+      this.bookmarksService.add(userId, message),
+    );
+  }
+
+  @Delete('api/users/:id/bookmarks/:messageId')
+  async removeBookmark(
+    @Param('id') userId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() currentUserId: string,
+  ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('Solo puedes modificar tu propia lista');
+    }
+
+    await this.bookmarksService.remove(userId, messageId);
+    return { message: 'Mensaje eliminado de guardados' };
+  }
+
   @Post('api/users/:id/avatar')
   @UseInterceptors(FileInterceptor('avatar'))
   async updateUserAvatar(
     @Param('id') userId: string,
     @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() currentUserId: string,
   ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('Solo puedes modificar tu propio avatar');
+    }
+
     if (!file) {
       throw new BadRequestException('No se proporcionó archivo de avatar');
     }
@@ -780,7 +1456,14 @@ export class AppController {
   }
 
   @Delete('api/users/:id/avatar')
-  async deleteUserAvatar(@Param('id') userId: string) {
+  async deleteUserAvatar(
+    @Param('id') userId: string,
+    @CurrentUser() currentUserId: string,
+  ) {
+    if (userId !== currentUserId) {
+      throw new ForbiddenException('Solo puedes modificar tu propio avatar');
+    }
+
     const currentUser = await this.dynamoDBService.getUser(userId);
     if (!currentUser) {
       throw new BadRequestException('Usuario no encontrado');
@@ -804,6 +1487,7 @@ export class AppController {
     };
   }
 
+  @Public()
   @Get('/admin')
   serveAdmin(@Res() res: Response) {
     const adminPath = path.join(__dirname, '../public/admin.html');
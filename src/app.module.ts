@@ -1,19 +1,56 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_GUARD, DiscoveryModule } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { RedisService } from './services/redis.service';
 import { DynamoDBService } from './services/dynamodb.service';
 import { FileStorageService } from './services/file-storage.service';
+import { AuthService } from './services/auth.service';
+import { ConversationAccessService } from './services/conversation-access.service';
+import { GroupService } from './services/group.service';
+import { MessageReactionsService } from './services/message-reactions.service';
+import { MessageReceiptsService } from './services/message-receipts.service';
+import { ThreadsService } from './services/threads.service';
+import { PinsService } from './services/pins.service';
+import { BookmarksService } from './services/bookmarks.service';
+import { MentionsService } from './services/mentions.service';
+import { ScheduledMessagesService } from './services/scheduled-messages.service';
+import { MessageExpirationService } from './services/message-expiration.service';
+import { SyncService } from './services/sync.service';
+import { PollsService } from './services/polls.service';
+import { SearchService } from './services/search.service';
+import { DraftsService } from './services/drafts.service';
+import { SlashCommandsService } from './services/slash-commands.service';
+import { BUILTIN_COMMANDS } from './commands/builtin.commands';
+import {
+  SLASH_COMMANDS,
+  SlashCommandHandler,
+} from './commands/slash-command.interface';
+import { AuthGuard } from './guards/auth.guard';
 import { ChatGateway } from './gateways/chat.gateway';
 import appConfig from './configs/app.config';
 
 @Module({
   imports: [
+    DiscoveryModule,
     ConfigModule.forRoot({
       isGlobal: true,
       load: [appConfig],
     }),
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const secret = configService.get<string>('app.auth.jwtSecret');
+        if (!secret) {
+          throw new Error(
+            'JWT_SECRET no está configurado: la API no arranca sin un secreto para firmar los tokens',
+          );
+        }
+        return { secret };
+      },
+    }),
   ],
   controllers: [AppController],
   providers: [
@@ -21,7 +58,33 @@ import appConfig from './configs/app.config';
     RedisService,
     DynamoDBService,
     FileStorageService,
+    AuthService,
+    ConversationAccessService,
+    GroupService,
+    MessageReactionsService,
+    MessageReceiptsService,
+    ThreadsService,
+    PinsService,
+    BookmarksService,
+    MentionsService,
+    ScheduledMessagesService,
+    MessageExpirationService,
+    SyncService,
+    PollsService,
+    SearchService,
+    DraftsService,
+    SlashCommandsService,
+    ...BUILTIN_COMMANDS,
+    {
+      provide: SLASH_COMMANDS,
+      useFactory: (...handlers: SlashCommandHandler[]) => handlers,
+      inject: BUILTIN_COMMANDS,
+    },
     ChatGateway,
+    {
+      provide: APP_GUARD,
+      useClass: AuthGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,195 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from '../services/dynamodb.service';
+import { ConversationAccessService } from '../services/conversation-access.service';
+import { GroupService } from '../services/group.service';
+import { PollsService } from '../services/polls.service';
+import { parseMentions } from '../services/mentions.service';
+import { MessageError } from '../utils/message-ack';
+import {
+  SlashCommandContext,
+  SlashCommandHandler,
+} from './slash-command.interface';
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+const MAX_MUTE_MS = 365 * DURATION_UNITS.d;
+
+/**
+ * Duración en milisegundos de expresiones como `30m`, `1h`, `2d` o `1w`.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,4})\s*([mhdw])$/i);
+  if (!match) {
+    return null;
+  }
+  const duration =
+    parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+  return duration > 0 && duration <= MAX_MUTE_MS ? duration : null;
+}
+
+@Injectable()
+export class InviteCommand implements SlashCommandHandler {
+  name = 'invite';
+  usage = '/invite @usuario';
+  description = 'Añade usuarios al grupo';
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  async execute(context: SlashCommandContext) {
+    const { userIds } = parseMentions(context.args);
+    if (userIds.length === 0) {
+      throw new MessageError('INVALID_PAYLOAD', `Uso: ${this.usage}`);
+    }
+
+    const conversationId: string = context.conversation.id;
+    await this.conversationAccessService.assertGroupPermission(
+      conversationId,
+      context.senderId,
+      'add_member',
+    );
+
+    for (const userId of userIds) {
+      if (!(await this.dynamoDBService.getUser(userId))) {
+        context.reply(`No existe el usuario @${userId}`);
+      } else if (
+        await this.conversationAccessService.isParticipant(
+          conversationId,
+          userId,
+        )
+      ) {
+        context.reply(`@${userId} ya está en el grupo`);
+      } else {
+        await context.gateway.addUserToGroup(
+          context.conversation,
+          userId,
+          context.senderId,
+        );
+      }
+    }
+  }
+}
+
+@Injectable()
+export class RenameCommand implements SlashCommandHandler {
+  name = 'rename';
+  usage = '/rename Nuevo nombre';
+  description = 'Cambia el nombre del grupo';
+
+  constructor(private readonly groupService: GroupService) {}
+
+  async execute(context: SlashCommandContext) {
+    if (!context.args) {
+      throw new MessageError('INVALID_PAYLOAD', `Uso: ${this.usage}`);
+    }
+
+    const { eventData, participantIds } = await this.groupService.renameGroup(
+      context.conversation.id,
+      context.senderId,
+      { name: context.args },
+    );
+    context.gateway.emitGroupUpdated(eventData, participantIds);
+  }
+}
+
+@Injectable()
+export class TopicCommand implements SlashCommandHandler {
+  name = 'topic';
+  usage = '/topic [tema]';
+  description = 'Muestra o cambia el tema (descripción) del grupo';
+
+  constructor(private readonly groupService: GroupService) {}
+
+  async execute(context: SlashCommandContext) {
+    if (!context.args) {
+      context.reply(
+        context.conversation.description
+          ? `Tema: ${context.conversation.description}`
+          : 'Esta conversación no tiene tema',
+      );
+      return;
+    }
+
+    const { eventData, participantIds } = await this.groupService.renameGroup(
+      context.conversation.id,
+      context.senderId,
+      { description: context.args },
+    );
+    context.gateway.emitGroupUpdated(eventData, participantIds);
+  }
+}
+
+@Injectable()
+export class MuteCommand implements SlashCommandHandler {
+  name = 'mute';
+  usage = '/mute <30m|1h|8h|1d|1w|off>';
+  description =
+    'Silencia la conversación: no llegan avisos de mensajes no leídos, salvo menciones';
+
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  async execute(context: SlashCommandContext) {
+    let mutedUntil: string | null = null;
+    if (context.args.toLowerCase() !== 'off') {
+      const duration = parseDuration(context.args);
+      if (!duration) {
+        throw new MessageError('INVALID_PAYLOAD', `Uso: ${this.usage}`);
+      }
+      mutedUntil = new Date(Date.now() + duration).toISOString();
+    }
+
+    await this.dynamoDBService.updateParticipantMute(
+      context.conversation.id,
+      context.senderId,
+      mutedUntil,
+    );
+    context.gateway.emitConversationMuted(
+      context.senderId,
+      context.conversation.id,
+      mutedUntil,
+    );
+    context.reply(
+      mutedUntil
+        ? `Conversación silenciada hasta ${mutedUntil}`
+        : 'La conversación ya no está silenciada',
+    );
+  }
+}
+
+@Injectable()
+export class PollCommand implements SlashCommandHandler {
+  name = 'poll';
+  usage = '/poll Pregunta | Opción 1 | Opción 2';
+  description = 'Crea una encuesta en el grupo';
+
+  constructor(private readonly pollsService: PollsService) {}
+
+  async execute(context: SlashCommandContext) {
+    const [question, ...options] = context.args.split('|');
+    const poll = await this.pollsService.buildPoll(context.conversation.id, {
+      question,
+      options,
+    });
+
+    await context.gateway.sendMessage(context.senderId, {
+      conversationId: context.conversation.id,
+      content: poll.question,
+      messageType: 'poll',
+      poll,
+    });
+  }
+}
+
+export const BUILTIN_COMMANDS = [
+  InviteCommand,
+  RenameCommand,
+  TopicCommand,
+  MuteCommand,
+  PollCommand,
+];
@@ -0,0 +1,29 @@
+import type { Socket } from 'socket.io';
+import type { ChatGateway } from '../gateways/chat.gateway';
+
+/**
+ * Token con el que cada módulo registra sus comandos (un handler o una lista).
+ * SlashCommandsService reúne los de todos los módulos al arrancar:
+ *
+ *   { provide: SLASH_COMMANDS, useFactory: (a, b) => [a, b], inject: [A, B] }
+ */
+export const SLASH_COMMANDS = 'SLASH_COMMANDS';
+
+export interface SlashCommandContext {
+  client: Socket;
+  senderId: string;
+  conversation: any;
+  /** Texto tras el nombre del comando, sin espacios al inicio ni al final */
+  args: string;
+  gateway: ChatGateway;
+  /** Responde solo al socket de quien ejecutó el comando */
+  reply(text: string): void;
+}
+
+export interface SlashCommandHandler {
+  name: string;
+  aliases?: string[];
+  usage: string;
+  description: string;
+  execute(context: SlashCommandContext): Promise<void>;
+}
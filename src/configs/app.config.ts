@@ -18,6 +18,70 @@ export default registerAs('app', () => ({
   socket: {
     corsOrigin: process.env.WS_CORS_ORIGIN,
   },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET,
+    jwtIssuer: process.env.JWT_ISSUER || 'davichat-api',
+    accessTokenTtl: parseInt(process.env.JWT_ACCESS_TOKEN_TTL || '900', 10),
+    refreshTokenTtl: parseInt(
+      process.env.JWT_REFRESH_TOKEN_TTL || '2592000',
+      10,
+    ),
+    apiKey: process.env.AUTH_API_KEY,
+  },
+  membership: {
+    cacheTtl: parseInt(process.env.MEMBERSHIP_CACHE_TTL || '300', 10),
+  },
+  conversations: {
+    maxPins: parseInt(process.env.CONVERSATION_MAX_PINS || '10', 10),
+  },
+  messages: {
+    pageSize: parseInt(process.env.MESSAGES_PAGE_SIZE || '50', 10),
+    maxPageSize: parseInt(process.env.MESSAGES_MAX_PAGE_SIZE || '100', 10),
+    editWindowMinutes: parseInt(
+      process.env.MESSAGES_EDIT_WINDOW_MINUTES || '15',
+      10,
+    ),
+    editableTypes: process.env.MESSAGES_EDITABLE_TYPES?.split(',') || [
+      'text',
+      'rich',
+    ],
+    tombstoneRetentionDays: parseInt(
+      process.env.MESSAGES_TOMBSTONE_RETENTION_DAYS || '30',
+      10,
+    ),
+    clientMessageIdTtl: parseInt(
+      process.env.MESSAGES_CLIENT_ID_TTL_SECONDS || '86400',
+      10,
+    ),
+  },
+  scheduledMessages: {
+    pollInterval: parseInt(
+      process.env.SCHEDULED_MESSAGES_POLL_INTERVAL_MS || '10000',
+      10,
+    ),
+    batchSize: parseInt(process.env.SCHEDULED_MESSAGES_BATCH_SIZE || '25', 10),
+  },
+  sync: {
+    changeRetentionDays: parseInt(
+      process.env.SYNC_CHANGE_RETENTION_DAYS || '7',
+      10,
+    ),
+    pageSize: parseInt(process.env.SYNC_PAGE_SIZE || '500', 10),
+  },
+  drafts: {
+    ttl: parseInt(process.env.DRAFTS_TTL_SECONDS || '604800', 10),
+  },
+  messageExpiration: {
+    sweepInterval: parseInt(
+      process.env.MESSAGE_EXPIRATION_SWEEP_INTERVAL_MS || '60000',
+      10,
+    ),
+    batchSize: parseInt(process.env.MESSAGE_EXPIRATION_BATCH_SIZE || '100', 10),
+    maxTtlDays: parseInt(
+      process.env.MESSAGE_EXPIRATION_MAX_TTL_DAYS || '365',
+      10,
+    ),
+  },
   fileStorage: {
     type: process.env.FILE_STORAGE_TYPE || 'local',
     maxSize: parseInt(process.env.FILE_UPLOAD_MAX_SIZE || '10485760', 10),
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+export const CurrentUser = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): string => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<{ user?: { userId: string } }>();
+    return request.user?.userId as string;
+  },
+);
@@ -0,0 +1,116 @@
+import {
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class FilePayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  fileUrl: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fileName: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  fileSize?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  fileType?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  thumbnailUrl?: string;
+}
+
+export class AudioPayloadDto extends FilePayloadDto {
+  /** Duración en segundos */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  duration?: number;
+}
+
+export class LocationPayloadDto {
+  @IsLatitude()
+  latitude: number;
+
+  @IsLongitude()
+  longitude: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+}
+
+export class ContactPayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  phoneNumbers?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEmail({}, { each: true })
+  emails?: string[];
+
+  /** Usuario del chat al que corresponde el contacto, si lo hay */
+  @IsOptional()
+  @IsString()
+  userId?: string;
+}
+
+export const SYSTEM_ACTIONS = [
+  'group_created',
+  'member_added',
+  'member_removed',
+  'member_left',
+  'ownership_transferred',
+] as const;
+
+export type SystemAction = (typeof SYSTEM_ACTIONS)[number];
+
+export class SystemPayloadDto {
+  @IsIn(SYSTEM_ACTIONS)
+  action: SystemAction;
+
+  /** Usuario que provocó el evento */
+  @IsString()
+  @IsNotEmpty()
+  actorId: string;
+
+  /** Usuarios afectados */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  targetIds?: string[];
+}
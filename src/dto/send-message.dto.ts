@@ -0,0 +1,70 @@
+import {
+  IsDefined,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+/**
+ * Cuerpo de `send_message`. `content` y `payload` se validan después según
+ * `messageType` (ver `src/utils/message-types.ts`).
+ */
+export class SendMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  conversationId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  messageType: string;
+
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, any>;
+
+  @IsOptional()
+  clientMessageId?: string;
+
+  @IsOptional()
+  @IsObject()
+  poll?: any;
+}
+
+export class SendReplyDto extends SendMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  replyTo: string;
+}
+
+export class ScheduleMessageDto {
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  @IsOptional()
+  @IsString()
+  messageType?: string;
+
+  @IsOptional()
+  @IsObject()
+  payload?: Record<string, any>;
+
+  @IsDefined()
+  @IsString()
+  sendAt: string;
+}
+
+export class UpdateScheduledMessageDto {
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  @IsOptional()
+  @IsString()
+  sendAt?: string;
+}
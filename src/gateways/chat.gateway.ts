@@ -4,6 +4,7 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   ConnectedSocket,
   MessageBody,
 } from '@nestjs/websockets';
@@ -13,6 +14,43 @@ import { DynamoDBService } from '../services/dynamodb.service';
 import { v4 as uuidv4 } from 'uuid';
 import { ConfigService } from '@nestjs/config';
 import { FileStorageService } from '../services/file-storage.service';
+import { AuthService } from '../services/auth.service';
+import {
+  ConversationAccessError,
+  ConversationAccessService,
+  GroupAction,
+} from '../services/conversation-access.service';
+import { GroupService } from '../services/group.service';
+import { MessageReactionsService } from '../services/message-reactions.service';
+import {
+  MessageReceiptsService,
+  MessageStatusUpdate,
+  MessagesReadUpdate,
+} from '../services/message-receipts.service';
+import { ThreadsService } from '../services/threads.service';
+import { PinnedMessage, PinsService } from '../services/pins.service';
+import { BookmarksService } from '../services/bookmarks.service';
+import { MentionsService } from '../services/mentions.service';
+import { SyncService } from '../services/sync.service';
+import { Draft, DraftsService } from '../services/drafts.service';
+import { Poll, PollsService } from '../services/polls.service';
+import {
+  ParsedSlashCommand,
+  SlashCommandsService,
+} from '../services/slash-commands.service';
+import { MessageAck, MessageError, toErrorAck } from '../utils/message-ack';
+import { renderRichText } from '../utils/rich-text';
+import {
+  MESSAGE_TYPES,
+  SYSTEM_SENDER_ID,
+  buildMessageBody,
+  validateDto,
+} from '../utils/message-types';
+import { SendMessageDto, SendReplyDto } from '../dto/send-message.dto';
+import { SystemAction } from '../dto/message-payload.dto';
+
+/** Las reservas de `clientMessageId` de los comandos guardan `command:{nombre}` */
+const COMMAND_RESERVATION_PREFIX = 'command:';
 
 @WebSocketGateway({
   path: '/ws',
@@ -21,7 +59,9 @@ import { FileStorageService } from '../services/file-storage.service';
     credentials: true,
   },
 })
-export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ChatGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
   server: Server;
 
@@ -30,10 +70,41 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     private readonly dynamoDBService: DynamoDBService,
     private readonly configService: ConfigService,
     private readonly fileStorageService: FileStorageService,
+    private readonly authService: AuthService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly groupService: GroupService,
+    private readonly messageReactionsService: MessageReactionsService,
+    private readonly messageReceiptsService: MessageReceiptsService,
+    private readonly threadsService: ThreadsService,
+    private readonly pinsService: PinsService,
+    private readonly bookmarksService: BookmarksService,
+    private readonly mentionsService: MentionsService,
+    private readonly syncService: SyncService,
+    private readonly pollsService: PollsService,
+    private readonly slashCommandsService: SlashCommandsService,
+    private readonly draftsService: DraftsService,
   ) {}
 
+  afterInit(server: Server) {
+    server.use((socket, next) => {
+      const token = this.extractHandshakeToken(socket);
+      if (!token) {
+        next(new Error('Token de acceso requerido'));
+        return;
+      }
+
+      this.authService
+        .verifyAccessToken(token)
+        .then((payload) => {
+          socket.data.userId = payload.sub;
+          next();
+        })
+        .catch(() => next(new Error('Token inválido o expirado')));
+    });
+  }
+
   async handleConnection(client: Socket) {
-    const userId = client.handshake.auth.userId;
+    const userId = client.data.userId;
     if (userId) {
       await this.redisService.setUserOnline(userId);
       client.join(`user:${userId}`);
@@ -41,7 +112,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   async handleDisconnect(client: Socket) {
-    const userId = client.handshake.auth.userId;
+    const userId = client.data.userId;
     if (userId) {
       await this.redisService.setUserOffline(userId);
       this.server.emit('user_status_update', { userId, status: 'offline' });
@@ -51,9 +122,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('user_join')
   async handleUserJoin(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string; name?: string; email?: string },
+    @MessageBody() data: { name?: string; email?: string },
   ) {
-    const { userId, name, email } = data;
+    const userId: string = client.data.userId;
+    const { name, email } = data;
     await this.redisService.setUserOnline(userId);
     await this.redisService.setUser(userId, { userId, name, email });
     client.join(`user:${userId}`);
@@ -69,11 +141,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   @SubscribeMessage('user_leave')
-  async handleUserLeave(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string },
-  ) {
-    const userId = data.userId;
+  async handleUserLeave(@ConnectedSocket() client: Socket) {
+    const userId: string = client.data.userId;
     await this.redisService.setUserOffline(userId);
     client.leave(`user:${userId}`);
     this.server.emit('user_status_update', { userId, status: 'offline' });
@@ -82,9 +151,21 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('join_room')
   async handleJoinRoom(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string },
+    @MessageBody() data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
+    if (
+      !(await this.ensureParticipant(
+        client,
+        'join_room',
+        conversationId,
+        userId,
+      ))
+    ) {
+      return;
+    }
+
     client.join(`conversation:${conversationId}`);
     this.server.to(`conversation:${conversationId}`).emit('user_joined', {
       conversationId,
@@ -95,9 +176,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('leave_room')
   async handleLeaveRoom(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string },
+    @MessageBody() data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
     client.leave(`conversation:${conversationId}`);
     this.server.to(`conversation:${conversationId}`).emit('user_left', {
       conversationId,
@@ -108,17 +190,166 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('send_message')
   async handleSendMessage(
     @ConnectedSocket() client: Socket,
-    @MessageBody()
+    @MessageBody() data: SendMessageDto,
+  ): Promise<MessageAck> {
+    const senderId: string = client.data.userId;
+    const { conversationId, messageType, clientMessageId } = data;
+
+    try {
+      validateDto(SendMessageDto, data);
+      await this.conversationAccessService.assertParticipant(
+        conversationId,
+        senderId,
+      );
+
+      const isText = messageType === 'text' || messageType === 'rich';
+      const command = isText
+        ? this.slashCommandsService.parse(data.content)
+        : null;
+      if (command) {
+        return await this.runSlashCommand(
+          client,
+          conversationId,
+          command,
+          clientMessageId,
+        );
+      }
+
+      const poll =
+        messageType === 'poll'
+          ? await this.pollsService.buildPoll(conversationId, data.poll)
+          : undefined;
+      // La pregunta hace de contenido para las vistas previas; `//texto` se
+      // envía como "/texto" sin ejecutar ningún comando
+      const { content, payload } = buildMessageBody(messageType, {
+        content: poll
+          ? poll.question
+          : isText && data.content?.startsWith('//')
+            ? data.content.slice(1)
+            : data.content,
+        payload: data.payload,
+      });
+
+      const ack = await this.sendOnce(senderId, clientMessageId, (messageId) =>
+        this.sendMessage(
+          senderId,
+          {
+            conversationId,
+            content,
+            messageType,
+            clientMessageId,
+            poll,
+            payload,
+          },
+          messageId,
+        ),
+      );
+      await this.clearDraftAfterSend(senderId, conversationId);
+      return ack;
+    } catch (error) {
+      if (error instanceof ConversationAccessError) {
+        this.rejectAccess(client, 'send_message', conversationId, error);
+      } else {
+        console.error('Error sending message:', error);
+      }
+      return toErrorAck(error);
+    }
+  }
+
+  /**
+   * Ejecuta un comando de barra en lugar de guardar el mensaje. Los errores
+   * de validación o permisos se responden solo a quien lo ejecutó. Con
+   * `clientMessageId`, un reintento devuelve el ack sin volver a ejecutarlo.
+   */
+  private async runSlashCommand(
+    client: Socket,
+    conversationId: string,
+    command: ParsedSlashCommand,
+    clientMessageId?: string,
+  ): Promise<MessageAck> {
+    const senderId: string = client.data.userId;
+    const reservedId = clientMessageId ?? undefined;
+    if (reservedId !== undefined) {
+      const existing = await this.reserveClientMessageId(
+        senderId,
+        reservedId,
+        `${COMMAND_RESERVATION_PREFIX}${command.name}`,
+      );
+      if (existing) {
+        return this.duplicateAck(existing);
+      }
+    }
+
+    const reply = (text: string) =>
+      client.emit('command_reply', {
+        command: command.name,
+        conversationId,
+        text,
+      });
+
+    try {
+      await this.slashCommandsService.execute(command.name, {
+        client,
+        senderId,
+        conversation:
+          await this.dynamoDBService.getConversation(conversationId),
+        args: command.args,
+        gateway: this,
+        reply,
+      });
+      return { ok: true, command: command.name };
+    } catch (error) {
+      // El comando no llegó a ejecutarse: el reintento puede repetirlo
+      if (reservedId !== undefined) {
+        await this.redisService.releaseClientMessageId(senderId, reservedId);
+      }
+      if (
+        !(error instanceof MessageError) &&
+        !(error instanceof ConversationAccessError)
+      ) {
+        throw error;
+      }
+      client.emit('command_error', {
+        command: command.name,
+        conversationId,
+        error: error.message,
+        code: error.code,
+      });
+      return toErrorAck(error);
+    }
+  }
+
+  /**
+   * Crea y entrega un mensaje de un participante ya validado. Lo usan
+   * `send_message`, los mensajes programados y el comando `/poll`. El
+   * contenido y el payload llegan ya validados con `buildMessageBody`.
+   */
+  async sendMessage(
+    senderId: string,
     data: {
       conversationId: string;
-      senderId: string;
       content: string;
       messageType: string;
+      clientMessageId?: string;
+      poll?: Poll;
+      payload?: Record<string, any>;
     },
+    messageId: string = uuidv4(),
   ) {
-    const { conversationId, senderId, content, messageType } = data;
-    const messageId = uuidv4();
+    const { conversationId, messageType, clientMessageId, poll, payload } =
+      data;
+    const { content, rich } =
+      messageType === 'rich'
+        ? this.buildRichContent(data.content)
+        : { content: data.content, rich: undefined };
+    await this.assertSentFile(senderId, conversationId, payload);
     const timestamp = new Date().toISOString();
+    const mentions = await this.resolveTextMentions(
+      conversationId,
+      senderId,
+      messageType,
+      rich ? rich.plainText : content,
+    );
 
     const messageData = {
       id: messageId,
@@ -129,9 +360,92 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       timestamp,
       isEdited: false,
       isDeleted: false,
+      ...(clientMessageId ? { clientMessageId } : {}),
+      ...(mentions.length > 0 ? { mentions } : {}),
+      ...(poll ? { poll } : {}),
+      ...(rich ? { rich } : {}),
+      ...(payload ? { payload } : {}),
+      ...(payload?.fileUrl ? { fileUrl: payload.fileUrl } : {}),
     };
 
-    await this.dynamoDBService.createMessage(messageData);
+    const message = await this.dynamoDBService.createMessage(messageData);
+    await this.deliverMessage(message, this.getMessagePreview(message));
+    return message;
+  }
+
+  /**
+   * Deja constancia en el historial de un cambio en el grupo con un mensaje
+   * de tipo `system`. Solo se emite `message_received` a la sala: no cuenta
+   * como no leído ni genera avisos. Un fallo se registra sin interrumpir la
+   * operación, que ya se ha aplicado.
+   */
+  async recordGroupEvent(
+    conversation: any,
+    action: SystemAction,
+    actorId: string,
+    targetIds: string[] = [],
+  ) {
+    const conversationId: string = conversation.id;
+
+    try {
+      const [actorName, ...targetNames] = await Promise.all(
+        [actorId, ...targetIds].map(async (userId) => {
+          const user = await this.dynamoDBService.getUser(userId);
+          return (user?.name as string) || 'Usuario';
+        }),
+      );
+      const targets = targetNames.join(', ');
+      const descriptions: Record<SystemAction, string> = {
+        group_created: `${actorName} creó el grupo "${conversation.name}"`,
+        member_added: `${actorName} añadió a ${targets}`,
+        member_removed: `${actorName} eliminó a ${targets}`,
+        member_left: `${actorName} salió del grupo`,
+        ownership_transferred: `${targets} es ahora propietario del grupo`,
+      };
+
+      const { content, payload } = buildMessageBody(
+        'system',
+        {
+          content: descriptions[action],
+          payload: {
+            action,
+            actorId,
+            ...(targetIds.length > 0 ? { targetIds } : {}),
+          },
+        },
+        { allowServerOnly: true },
+      );
+      const message = await this.dynamoDBService.createMessage({
+        id: uuidv4(),
+        conversationId,
+        senderId: SYSTEM_SENDER_ID,
+        content,
+        messageType: 'system',
+        payload,
+        timestamp: new Date().toISOString(),
+        isEdited: false,
+        isDeleted: false,
+      });
+
+      this.server
+        .to(`conversation:${conversationId}`)
+        .emit('message_received', message);
+      return message;
+    } catch (error) {
+      console.error('Error guardando mensaje de sistema:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Emite `message_received` a la sala y actualiza el contador de no leídos
+   * de los demás participantes, avisando a los que están en línea. Los
+   * mencionados reciben además `mentioned` aunque tengan la conversación
+   * silenciada.
+   */
+  async deliverMessage(messageData: any, preview: string) {
+    const { id: messageId, conversationId, senderId, timestamp } = messageData;
+    const mentions: string[] = messageData.mentions || [];
 
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
@@ -157,13 +471,26 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         participant.lastReadAt || new Date(0).toISOString(),
       );
 
-      if (isOnline) {
+      if (mentions.includes(participant.userId)) {
+        await this.notifyMention(
+          conversation,
+          messageData,
+          participant.userId,
+          preview,
+        );
+      }
+
+      const isMuted =
+        !!participant.mutedUntil &&
+        participant.mutedUntil > new Date().toISOString();
+
+      if (isOnline && !isMuted) {
         const unreadEvent = {
           type: conversation.type,
           conversationId,
           senderId,
           messageId,
-          content,
+          content: preview,
           timestamp,
         };
 
@@ -179,12 +506,62 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /** Menciones de un mensaje `text` o `rich`; los demás tipos no las tienen */
+  private async resolveTextMentions(
+    conversationId: string,
+    senderId: string,
+    messageType: string,
+    text: string,
+  ): Promise<string[]> {
+    if (messageType !== 'text' && messageType !== 'rich') {
+      return [];
+    }
+    return this.mentionsService.resolveMentions(conversationId, senderId, text);
+  }
+
+  /**
+   * Suma la mención al contador del participante y le emite `mentioned`,
+   * aunque tenga la conversación silenciada.
+   */
+  private async notifyMention(
+    conversation: any,
+    message: any,
+    userId: string,
+    preview: string,
+  ) {
+    await this.dynamoDBService.incrementParticipantMentionCount(
+      conversation.id,
+      userId,
+    );
+    this.server.to(`user:${userId}`).emit('mentioned', {
+      type: conversation.type,
+      conversationId: conversation.id,
+      conversationName: conversation.name,
+      senderId: message.senderId,
+      messageId: message.id,
+      content: preview,
+      timestamp: message.timestamp,
+    });
+  }
+
   @SubscribeMessage('typing_start')
   async handleTypingStart(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string },
+    @MessageBody() data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
+    if (
+      !(await this.ensureParticipant(
+        client,
+        'typing_start',
+        conversationId,
+        userId,
+      ))
+    ) {
+      return;
+    }
+
     this.server.to(`conversation:${conversationId}`).emit('typing_indicator', {
       conversationId,
       userId,
@@ -195,9 +572,21 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('typing_stop')
   async handleTypingStop(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string },
+    @MessageBody() data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
+    if (
+      !(await this.ensureParticipant(
+        client,
+        'typing_stop',
+        conversationId,
+        userId,
+      ))
+    ) {
+      return;
+    }
+
     this.server.to(`conversation:${conversationId}`).emit('typing_indicator', {
       conversationId,
       userId,
@@ -208,9 +597,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('user_status')
   async handleUserStatus(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: string; status: string },
+    @MessageBody() data: { status: string },
   ) {
-    const { userId, status } = data;
+    const userId: string = client.data.userId;
+    const { status } = data;
     await this.redisService.setUser(userId, { status });
     this.server.emit('user_status_update', { userId, status });
   }
@@ -218,9 +608,25 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('mark_messages_as_read')
   async handleMarkMessagesAsRead(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { conversationId: string; userId: string },
+    @MessageBody() data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
+    if (
+      !(await this.ensureParticipant(
+        client,
+        'mark_messages_as_read',
+        conversationId,
+        userId,
+      ))
+    ) {
+      return;
+    }
+
+    const participant = await this.dynamoDBService.getParticipant(
+      conversationId,
+      userId,
+    );
 
     await this.dynamoDBService.updateParticipantReadStatus(
       conversationId,
@@ -234,6 +640,65 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       userId,
       timestamp: new Date().toISOString(),
     });
+
+    const updates = await this.messageReceiptsService.markConversationRead(
+      conversationId,
+      userId,
+      participant?.lastReadAt || new Date(0).toISOString(),
+    );
+    this.emitMessagesRead(updates);
+  }
+
+  @SubscribeMessage('message_delivered')
+  async handleMessageDelivered(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    const userId: string = client.data.userId;
+    const { messageId } = data;
+
+    try {
+      const message = await this.dynamoDBService.getMessage(messageId);
+      if (!message) {
+        throw new Error('Mensaje no encontrado');
+      }
+
+      if (
+        !(await this.ensureParticipant(
+          client,
+          'message_delivered',
+          message.conversationId,
+          userId,
+        ))
+      ) {
+        return;
+      }
+
+      const update = await this.messageReceiptsService.markDelivered(
+        message,
+        userId,
+      );
+      if (update) {
+        this.emitMessageStatusUpdates([update]);
+      }
+    } catch (error) {
+      console.error('Error marking message as delivered:', error);
+      client.emit('receipt_error', { messageId, error: error.message });
+    }
+  }
+
+  emitMessageStatusUpdates(updates: MessageStatusUpdate[]) {
+    for (const update of updates) {
+      this.server
+        .to(`user:${update.senderId}`)
+        .emit('message_status_updated', update);
+    }
+  }
+
+  emitMessagesRead(updates: MessagesReadUpdate[]) {
+    for (const update of updates) {
+      this.server.to(`user:${update.senderId}`).emit('messages_read', update);
+    }
   }
 
   @SubscribeMessage('create_group')
@@ -244,31 +709,42 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       name: string;
       description?: string;
       participants: string[];
-      createdBy: string;
     },
   ) {
+    const createdBy: string = client.data.userId;
+    const participants = Array.from(
+      new Set([createdBy, ...(data.participants || [])]),
+    );
     const conversationId = uuidv4();
     const conversationData = {
       id: conversationId,
       type: 'group',
       name: data.name,
       description: data.description,
-      participants: data.participants,
-      createdBy: data.createdBy,
+      participants,
+      createdBy,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
     await this.dynamoDBService.createConversation(conversationData);
 
-    for (const userId of data.participants) {
+    for (const userId of participants) {
       await this.dynamoDBService.addParticipant(conversationId, userId, {
         unreadCount: 0,
         lastReadAt: new Date().toISOString(),
         isActive: true,
+        role: userId === createdBy ? 'owner' : 'member',
       });
     }
 
+    await this.recordGroupEvent(
+      conversationData,
+      'group_created',
+      createdBy,
+      participants.filter((userId) => userId !== createdBy),
+    );
+
     this.server.emit('group_created', conversationData);
   }
 
@@ -276,9 +752,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   async handleAddUserToGroup(
     @ConnectedSocket() client: Socket,
     @MessageBody()
-    data: { conversationId: string; userId: string; addedBy: string },
+    data: { conversationId: string; userId: string },
   ) {
-    const { conversationId, userId, addedBy } = data;
+    const addedBy: string = client.data.userId;
+    const { conversationId, userId } = data;
 
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
@@ -286,30 +763,46 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
 
-    const participantsBefore =
-      await this.dynamoDBService.getConversationParticipants(conversationId);
+    if (
+      !(await this.ensureGroupPermission(
+        client,
+        'add_user_to_group',
+        conversationId,
+        addedBy,
+        'add_member',
+      ))
+    ) {
+      return;
+    }
+
+    await this.addUserToGroup(conversation, userId, addedBy);
+  }
+
+  /**
+   * Añade al usuario a un grupo (permiso ya comprobado), une sus sockets a la
+   * sala y avisa a la sala, a los participantes y al nuevo miembro.
+   */
+  async addUserToGroup(conversation: any, userId: string, addedBy: string) {
+    const conversationId: string = conversation.id;
 
     await this.dynamoDBService.addParticipant(conversationId, userId, {
       unreadCount: 0,
       lastReadAt: new Date().toISOString(),
       isActive: true,
     });
-
-    const participantsAfter =
-      await this.dynamoDBService.getConversationParticipants(conversationId);
-
-    const participantCountChange =
-      participantsAfter.length - participantsBefore.length;
+    await this.conversationAccessService.invalidate(conversationId, [userId]);
+    this.server
+      .in(`user:${userId}`)
+      .socketsJoin(`conversation:${conversationId}`);
+    await this.recordGroupEvent(conversation, 'member_added', addedBy, [
+      userId,
+    ]);
 
     const updatedParticipants =
       await this.dynamoDBService.getConversationParticipants(conversationId);
     const updatedParticipantIds = updatedParticipants.map((p) => p.userId);
     const participantCount = updatedParticipantIds.length;
 
-    const room = this.server.sockets.adapter.rooms.get(
-      `conversation:${conversationId}`,
-    );
-
     const eventData = {
       conversationId,
       conversationName: conversation.name,
@@ -359,9 +852,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   async handleLeaveGroup(
     @ConnectedSocket() client: Socket,
     @MessageBody()
-    data: { conversationId: string; userId: string },
+    data: { conversationId: string },
   ) {
-    const { conversationId, userId } = data;
+    const userId: string = client.data.userId;
+    const { conversationId } = data;
 
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
@@ -390,21 +884,20 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
 
-    const originalCreatedBy = conversation.createdBy;
-    const isOriginalCreator = originalCreatedBy === userId;
+    const leavingRole = await this.conversationAccessService.getParticipantRole(
+      conversationId,
+      userId,
+    );
+    const isOriginalCreator =
+      conversation.createdBy === userId || leavingRole === 'owner';
     let newCreatorId: string | null = null;
 
     if (isOriginalCreator && participantsBefore.length > 1) {
-      const otherParticipant = participantsBefore.find(
-        (p) => p.userId !== userId,
+      newCreatorId = await this.groupService.transferOwnership(
+        conversationId,
+        userId,
+        participantsBefore,
       );
-      if (otherParticipant?.userId) {
-        newCreatorId = otherParticipant.userId;
-        await this.dynamoDBService.updateConversationCreatedBy(
-          conversationId,
-          otherParticipant.userId,
-        );
-      }
     }
 
     try {
@@ -445,6 +938,10 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       }
     }
 
+    await this.conversationAccessService.invalidate(conversationId, [userId]);
+    await this.bookmarksService.invalidateConversation(userId, conversationId);
+    this.leaveConversationRoom(conversationId, [userId]);
+
     const participantsAfter =
       await this.dynamoDBService.getConversationParticipants(conversationId);
     const updatedParticipantIds = participantsAfter.map((p) => p.userId);
@@ -489,6 +986,14 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
           await this.dynamoDBService.deleteConversationMessages(conversationId);
 
         await this.dynamoDBService.deleteConversation(conversationId);
+        const remainingParticipantIds = remainingParticipants.map(
+          (p) => p.userId as string,
+        );
+        await this.conversationAccessService.invalidate(
+          conversationId,
+          remainingParticipantIds,
+        );
+        this.leaveConversationRoom(conversationId, remainingParticipantIds);
 
         client.emit('leave_group_success', {
           conversationId,
@@ -520,7 +1025,15 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       }
     }
 
-    client.leave(`conversation:${conversationId}`);
+    await this.recordGroupEvent(conversation, 'member_left', userId);
+    if (isOriginalCreator && newCreatorId) {
+      await this.recordGroupEvent(
+        conversation,
+        'ownership_transferred',
+        userId,
+        [newCreatorId],
+      );
+    }
 
     const user = await this.dynamoDBService.getUser(userId);
     const userName = user?.name || 'Usuario';
@@ -596,6 +1109,111 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     });
   }
 
+  @SubscribeMessage('promote_participant')
+  async handlePromoteParticipant(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { conversationId: string; userId: string },
+  ) {
+    await this.updateParticipantRole(client, 'promote_participant', {
+      ...data,
+      role: 'admin',
+    });
+  }
+
+  @SubscribeMessage('demote_participant')
+  async handleDemoteParticipant(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { conversationId: string; userId: string },
+  ) {
+    await this.updateParticipantRole(client, 'demote_participant', {
+      ...data,
+      role: 'member',
+    });
+  }
+
+  @SubscribeMessage('rename_group')
+  async handleRenameGroup(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    data: { conversationId: string; name?: string; description?: string },
+  ) {
+    const userId: string = client.data.userId;
+    const { conversationId, name, description } = data;
+
+    try {
+      const { eventData, participantIds } = await this.groupService.renameGroup(
+        conversationId,
+        userId,
+        { name, description },
+      );
+      this.emitGroupUpdated(eventData, participantIds);
+    } catch (error) {
+      if (error instanceof ConversationAccessError) {
+        this.rejectAccess(client, 'rename_group', conversationId, error);
+        return;
+      }
+      console.error('Error renaming group:', error);
+      client.emit('group_error', {
+        event: 'rename_group',
+        conversationId,
+        error: error.message,
+      });
+    }
+  }
+
+  emitParticipantRoleUpdated(eventData: any, participantIds: string[]) {
+    this.server
+      .to(`conversation:${eventData.conversationId}`)
+      .emit('participant_role_updated', eventData);
+    for (const participantId of participantIds) {
+      this.server
+        .to(`user:${participantId}`)
+        .emit('participant_role_updated', eventData);
+    }
+  }
+
+  emitMessageTtlUpdated(eventData: any, participantIds: string[]) {
+    this.server
+      .to(`conversation:${eventData.conversationId}`)
+      .emit('message_ttl_updated', eventData);
+    for (const participantId of participantIds) {
+      this.server
+        .to(`user:${participantId}`)
+        .emit('message_ttl_updated', eventData);
+    }
+  }
+
+  emitConversationMuted(
+    userId: string,
+    conversationId: string,
+    mutedUntil: string | null,
+  ) {
+    this.server
+      .to(`user:${userId}`)
+      .emit('conversation_muted', { conversationId, mutedUntil });
+  }
+
+  emitGroupUpdated(eventData: any, participantIds: string[]) {
+    this.server
+      .to(`conversation:${eventData.conversationId}`)
+      .emit('group_updated', eventData);
+    for (const participantId of participantIds) {
+      this.server.to(`user:${participantId}`).emit('group_updated', eventData);
+    }
+  }
+
+  /**
+   * Saca de la sala de la conversación todos los sockets de esos usuarios,
+   * para que dejen de recibir sus eventos al salir o ser eliminados.
+   */
+  leaveConversationRoom(conversationId: string, userIds: string[]) {
+    for (const userId of userIds) {
+      this.server
+        .in(`user:${userId}`)
+        .socketsLeave(`conversation:${conversationId}`);
+    }
+  }
+
   @SubscribeMessage('group_participants_updated')
   async handleGroupParticipantsUpdated(
     @ConnectedSocket() client: Socket,
@@ -604,10 +1222,20 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       conversationId: string;
       action: 'add' | 'remove' | 'bulk_update';
       affectedUsers: string[];
-      updatedBy: string;
     },
   ) {
-    const { conversationId, action, affectedUsers, updatedBy } = data;
+    const updatedBy: string = client.data.userId;
+    const { conversationId, action, affectedUsers } = data;
+    if (
+      !(await this.ensureParticipant(
+        client,
+        'group_participants_updated',
+        conversationId,
+        updatedBy,
+      ))
+    ) {
+      return;
+    }
 
     const conversation =
       await this.dynamoDBService.getConversation(conversationId);
@@ -647,183 +1275,1078 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   async handleEditMessage(
     @ConnectedSocket() client: Socket,
     @MessageBody()
-    data: { messageId: string; newContent: string; userId: string },
-  ) {
+    data: { messageId: string; newContent: string },
+  ): Promise<MessageAck> {
+    let conversationId: string | undefined;
+
     try {
-      const { messageId, newContent, userId } = data;
+      const userId: string = client.data.userId;
+      const { messageId, newContent } = data;
 
       const message = await this.dynamoDBService.getMessage(messageId);
       if (!message) {
-        throw new Error('Message not found');
+        throw new MessageError('MESSAGE_NOT_FOUND', 'Message not found');
       }
+      conversationId = message.conversationId;
 
       if (message.senderId !== userId) {
-        throw new Error('Unauthorized to edit this message');
+        throw new MessageError(
+          'NOT_MESSAGE_OWNER',
+          'Unauthorized to edit this message',
+        );
       }
 
-      if (message.messageType !== 'text') {
-        throw new Error('Only text messages can be edited');
-      }
+      await this.conversationAccessService.assertParticipant(
+        message.conversationId,
+        userId,
+      );
 
-      const timeDiff = Date.now() - new Date(message.timestamp).getTime();
-      const fifteenMinutes = 15 * 60 * 1000;
-      if (timeDiff > fifteenMinutes) {
-        throw new Error('Message can only be edited within 15 minutes');
+      if (message.isDeleted) {
+        throw new MessageError(
+          'MESSAGE_DELETED',
+          'Deleted messages cannot be edited',
+        );
       }
 
-      await this.dynamoDBService.updateMessage(messageId, newContent);
+      const editableTypes: string[] = this.configService.get(
+        'app.messages.editableTypes',
+      ) || ['text', 'rich'];
+      if (!editableTypes.includes(message.messageType)) {
+        throw new MessageError(
+          'NOT_EDITABLE',
+          `Only ${editableTypes.join(', ')} messages can be edited`,
+        );
+      }
+
+      const editWindowMinutes: number =
+        this.configService.get('app.messages.editWindowMinutes') || 15;
+      const timeDiff = Date.now() - new Date(message.timestamp).getTime();
+      if (timeDiff > editWindowMinutes * 60 * 1000) {
+        throw new MessageError(
+          'EDIT_WINDOW_EXPIRED',
+          `Message can only be edited within ${editWindowMinutes} minutes`,
+        );
+      }
 
-      const updatedMessage = await this.dynamoDBService.getMessage(messageId);
+      const { content, rich } =
+        message.messageType === 'rich'
+          ? this.buildRichContent(newContent)
+          : { content: newContent, rich: undefined };
+      const mentions = await this.resolveTextMentions(
+        message.conversationId,
+        userId,
+        message.messageType,
+        rich ? rich.plainText : content,
+      );
+      const updatedMessage = await this.dynamoDBService.updateMessage(
+        messageId,
+        content,
+        userId,
+        rich,
+        mentions,
+      );
 
       this.server
         .to(`conversation:${message.conversationId}`)
         .emit('message_edited', updatedMessage);
+
+      // Solo se avisa a quien no estaba ya mencionado antes de la edición
+      const previousMentions: string[] = message.mentions || [];
+      const addedMentions = mentions.filter(
+        (mentionedId) => !previousMentions.includes(mentionedId),
+      );
+      if (addedMentions.length > 0) {
+        const conversation = await this.dynamoDBService.getConversation(
+          message.conversationId,
+        );
+        for (const mentionedId of addedMentions) {
+          await this.notifyMention(
+            conversation,
+            updatedMessage,
+            mentionedId,
+            this.getMessagePreview(updatedMessage),
+          );
+        }
+      }
+      return { ok: true, message: updatedMessage };
     } catch (error) {
+      if (error instanceof ConversationAccessError && conversationId) {
+        this.rejectAccess(client, 'edit_message', conversationId, error);
+        return toErrorAck(error);
+      }
       console.error('Error editing message:', error);
       client.emit('edit_message_error', { error: error.message });
+      return toErrorAck(error);
     }
   }
 
   @SubscribeMessage('delete_message')
   async handleDeleteMessage(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { messageId: string; userId: string },
-  ) {
+    @MessageBody() data: { messageId: string; mode?: 'everyone' | 'me' },
+  ): Promise<MessageAck> {
+    let conversationId: string | undefined;
+
     try {
-      const { messageId, userId } = data;
+      const userId: string = client.data.userId;
+      const { messageId, mode = 'everyone' } = data;
 
       const message = await this.dynamoDBService.getMessage(messageId);
       if (!message) {
-        throw new Error('Message not found');
+        throw new MessageError('MESSAGE_NOT_FOUND', 'Message not found');
+      }
+      conversationId = message.conversationId;
+
+      await this.conversationAccessService.assertParticipant(
+        message.conversationId,
+        userId,
+      );
+
+      if (mode === 'me') {
+        await this.dynamoDBService.hideMessage(message, userId);
+
+        this.server.to(`user:${userId}`).emit('message_hidden', {
+          messageId,
+          conversationId: message.conversationId,
+        });
+        return { ok: true, message };
       }
 
       if (message.senderId !== userId) {
-        throw new Error('Unauthorized to delete this message');
+        throw new MessageError(
+          'NOT_MESSAGE_OWNER',
+          'Unauthorized to delete this message',
+        );
       }
 
-      if (message.messageType === 'file') {
-        try {
-          const fileData = JSON.parse(message.content);
-          await this.fileStorageService.deleteFile(fileData.fileUrl);
-        } catch (fileError) {
-          console.error('Error deleting file:', fileError);
-        }
+      if (message.isDeleted) {
+        throw new MessageError('MESSAGE_DELETED', 'Message already deleted');
       }
 
-      await this.dynamoDBService.deleteMessage(messageId);
+      await this.deleteMessageFile(message);
+
+      const deletedMessage = await this.dynamoDBService.tombstoneMessage(
+        messageId,
+        userId,
+      );
 
       this.server
         .to(`conversation:${message.conversationId}`)
         .emit('message_deleted', {
           messageId,
           conversationId: message.conversationId,
+          mode: 'everyone',
+          deletedAt: deletedMessage.deletedAt,
+          deletedBy: userId,
         });
+
+      const { pins, changed } = await this.pinsService.removePin(
+        message.conversationId,
+        messageId,
+      );
+      if (changed) {
+        this.emitPinsUpdated(message.conversationId, pins, {
+          action: 'unpin',
+          messageId,
+          updatedBy: userId,
+        });
+      }
+      return { ok: true, message: deletedMessage };
     } catch (error) {
+      if (error instanceof ConversationAccessError && conversationId) {
+        this.rejectAccess(client, 'delete_message', conversationId, error);
+        return toErrorAck(error);
+      }
       console.error('Error deleting message:', error);
       client.emit('delete_message_error', { error: error.message });
+      return toErrorAck(error);
+    }
+  }
+
+  @SubscribeMessage('forward_message')
+  async handleForwardMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string; targetConversationIds: string[] },
+  ) {
+    const userId: string = client.data.userId;
+    const { messageId } = data;
+
+    try {
+      const targetConversationIds = [
+        ...new Set(data.targetConversationIds || []),
+      ];
+      if (targetConversationIds.length === 0) {
+        throw new Error('Indica al menos una conversación de destino');
+      }
+
+      const source = await this.dynamoDBService.getMessage(messageId);
+      if (!source || source.isDeleted) {
+        throw new Error('Mensaje no encontrado');
+      }
+      if (source.poll) {
+        throw new Error('Las encuestas no se pueden reenviar');
+      }
+      if (source.messageType === 'system') {
+        throw new Error('Los mensajes de sistema no se pueden reenviar');
+      }
+
+      for (const conversationId of [
+        source.conversationId,
+        ...targetConversationIds,
+      ]) {
+        if (
+          !(await this.ensureParticipant(
+            client,
+            'forward_message',
+            conversationId,
+            userId,
+          ))
+        ) {
+          return;
+        }
+      }
+
+      // Si el original ya era un reenvío se conserva el origen real
+      const forwardedFrom = source.forwardedFrom || {
+        messageId: source.id,
+        conversationId: source.conversationId,
+        senderId: source.senderId,
+        timestamp: source.timestamp,
+      };
+      const fileUrl = this.getMessageFileUrl(source);
+      const forwardedMessageIds: string[] = [];
+
+      for (const conversationId of targetConversationIds) {
+        const messageData = {
+          id: uuidv4(),
+          conversationId,
+          senderId: userId,
+          content: source.content,
+          messageType: source.messageType,
+          ...(fileUrl ? { fileUrl } : {}),
+          ...(source.rich ? { rich: source.rich } : {}),
+          ...(source.payload ? { payload: source.payload } : {}),
+          timestamp: new Date().toISOString(),
+          isEdited: false,
+          isDeleted: false,
+          forwardedFrom,
+        };
+
+        const message = await this.dynamoDBService.createMessage(messageData);
+        await this.deliverMessage(message, this.getMessagePreview(source));
+        forwardedMessageIds.push(message.id);
+      }
+
+      client.emit('forward_message_success', {
+        messageId,
+        forwardedMessageIds,
+      });
+    } catch (error) {
+      console.error('Error forwarding message:', error);
+      client.emit('forward_message_error', { messageId, error: error.message });
     }
   }
 
   @SubscribeMessage('send_reply')
   async handleSendReply(
     @ConnectedSocket() client: Socket,
-    @MessageBody()
+    @MessageBody() data: SendReplyDto,
+  ): Promise<MessageAck> {
+    try {
+      const senderId: string = client.data.userId;
+      validateDto(SendReplyDto, data);
+      const { conversationId, messageType, replyTo, clientMessageId } = data;
+
+      const isUserInConversation =
+        await this.conversationAccessService.isParticipant(
+          conversationId,
+          senderId,
+        );
+
+      if (!isUserInConversation) {
+        throw new MessageError(
+          'NOT_A_PARTICIPANT',
+          'Usuario no está en la conversación',
+        );
+      }
+
+      const originalMessage = await this.dynamoDBService.getMessage(replyTo);
+      if (
+        !originalMessage ||
+        originalMessage.conversationId !== conversationId
+      ) {
+        throw new MessageError(
+          'MESSAGE_NOT_FOUND',
+          'Mensaje original no encontrado',
+        );
+      }
+
+      const body = buildMessageBody(messageType, data);
+
+      const ack = await this.sendOnce(
+        senderId,
+        clientMessageId,
+        async (messageId) => {
+          const eventData = await this.sendReply(
+            senderId,
+            { conversationId, messageType, replyTo, clientMessageId, ...body },
+            originalMessage,
+            messageId,
+          );
+          client.emit('reply_sent_success', {
+            messageId,
+            conversationId,
+            timestamp: eventData.timestamp,
+          });
+          return eventData;
+        },
+      );
+      await this.clearDraftAfterSend(senderId, conversationId);
+      return ack;
+    } catch (error) {
+      if (error instanceof MessageError) {
+        client.emit('reply_error', { error: error.message, code: error.code });
+      } else {
+        console.error('Error processing reply:', error);
+        client.emit('reply_error', { error: 'Error interno del servidor' });
+      }
+      return toErrorAck(error);
+    }
+  }
+
+  private async sendReply(
+    senderId: string,
     data: {
       conversationId: string;
-      senderId: string;
       content: string;
       messageType: string;
       replyTo: string;
+      clientMessageId?: string;
+      payload?: Record<string, any>;
     },
+    originalMessage: any,
+    messageId: string,
+  ) {
+    const { conversationId, messageType, replyTo, clientMessageId, payload } =
+      data;
+    const { content, rich } =
+      messageType === 'rich'
+        ? this.buildRichContent(data.content)
+        : { content: data.content, rich: undefined };
+    await this.assertSentFile(senderId, conversationId, payload);
+    const threadRoot = await this.threadsService.resolveRoot(originalMessage);
+    const mentions = await this.resolveTextMentions(
+      conversationId,
+      senderId,
+      messageType,
+      rich ? rich.plainText : content,
+    );
+
+    const replyMessageData = {
+      id: messageId,
+      conversationId,
+      senderId,
+      content,
+      messageType,
+      timestamp: new Date().toISOString(),
+      isEdited: false,
+      isDeleted: false,
+      replyTo,
+      isReply: true,
+      threadRootId: threadRoot.id,
+      ...(clientMessageId ? { clientMessageId } : {}),
+      ...(mentions.length > 0 ? { mentions } : {}),
+      ...(rich ? { rich } : {}),
+      ...(payload ? { payload } : {}),
+      ...(payload?.fileUrl ? { fileUrl: payload.fileUrl } : {}),
+    };
+
+    const reply = await this.dynamoDBService.createMessage(replyMessageData);
+    const thread = await this.threadsService.registerReply(threadRoot, reply);
+
+    if (mentions.length > 0) {
+      const conversation =
+        await this.dynamoDBService.getConversation(conversationId);
+      for (const mentionedId of mentions) {
+        await this.notifyMention(
+          conversation,
+          reply,
+          mentionedId,
+          this.getMessagePreview(reply),
+        );
+      }
+    }
+
+    const label = MESSAGE_TYPES[originalMessage.messageType]?.label;
+    let replyPreview = this.getMessagePreview(originalMessage);
+    if (originalMessage.isDeleted) {
+      replyPreview = 'Mensaje eliminado';
+    } else if (label) {
+      replyPreview = `${label}: ${replyPreview}`;
+    }
+
+    if (replyPreview.length > 100) {
+      replyPreview = replyPreview.substring(0, 97) + '...';
+    }
+
+    const user = await this.dynamoDBService.getUser(senderId);
+    const senderInfo = {
+      id: senderId,
+      name: user?.name || 'Usuario',
+      avatar: user?.avatar || '',
+    };
+
+    const eventData = {
+      ...reply,
+      replyPreview,
+      sender: senderInfo,
+      replyCount: thread.replyCount,
+      lastReplyAt: thread.lastReplyAt,
+    };
+
+    this.server
+      .to(`conversation:${conversationId}`)
+      .emit('reply_received', eventData);
+
+    const threadEvent = {
+      threadRootId: thread.threadRootId,
+      conversationId,
+      replyCount: thread.replyCount,
+      lastReplyAt: thread.lastReplyAt,
+      reply: eventData,
+    };
+    for (const followerId of thread.followerIds) {
+      if (followerId === senderId) continue;
+      this.server.to(`user:${followerId}`).emit('thread_updated', threadEvent);
+    }
+
+    return eventData;
+  }
+
+  @SubscribeMessage('vote_poll')
+  async handleVotePoll(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string; optionIds: string[] },
+  ) {
+    const userId: string = client.data.userId;
+    return this.updatePoll(
+      client,
+      'vote_poll',
+      data.messageId,
+      async (message) => {
+        await this.pollsService.vote(message, userId, data.optionIds);
+        return message;
+      },
+    );
+  }
+
+  @SubscribeMessage('close_poll')
+  async handleClosePoll(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    const userId: string = client.data.userId;
+    return this.updatePoll(client, 'close_poll', data.messageId, (message) =>
+      this.pollsService.close(message, userId),
+    );
+  }
+
+  @SubscribeMessage('save_draft')
+  async handleSaveDraft(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    data: { conversationId: string; text?: string; replyTo?: string | null },
+  ) {
+    const userId: string = client.data.userId;
+    return this.updateDraft(client, 'save_draft', data.conversationId, () =>
+      this.draftsService.saveDraft(userId, data.conversationId, data),
+    );
+  }
+
+  @SubscribeMessage('clear_draft')
+  async handleClearDraft(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { conversationId: string },
+  ) {
+    const userId: string = client.data.userId;
+    return this.updateDraft(
+      client,
+      'clear_draft',
+      data.conversationId,
+      async () => {
+        await this.conversationAccessService.assertParticipant(
+          data.conversationId,
+          userId,
+        );
+        await this.draftsService.clearDraft(userId, data.conversationId);
+        return null;
+      },
+    );
+  }
+
+  @SubscribeMessage('sync')
+  async handleSync(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { since?: string },
   ) {
+    const userId: string = client.data.userId;
+
     try {
-      const { conversationId, senderId, content, messageType, replyTo } = data;
+      return {
+        ok: true,
+        ...(await this.syncService.getChangesSince(userId, data?.since)),
+      };
+    } catch (error) {
+      console.error('Error syncing changes:', error);
+      client.emit('sync_error', { error: error.message });
+      return { ok: false, error: error.message };
+    }
+  }
 
-      const participants =
-        await this.dynamoDBService.getConversationParticipants(conversationId);
-      const isUserInConversation = participants.some(
-        (p) => p.userId === senderId,
-      );
+  @SubscribeMessage('pin_message')
+  async handlePinMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    await this.updatePin(client, 'pin_message', data, 'pin');
+  }
 
-      if (!isUserInConversation) {
-        client.emit('reply_error', {
-          error: 'Usuario no está en la conversación',
-        });
-        return;
+  @SubscribeMessage('unpin_message')
+  async handleUnpinMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    await this.updatePin(client, 'unpin_message', data, 'unpin');
+  }
+
+  emitPinsUpdated(
+    conversationId: string,
+    pins: PinnedMessage[],
+    change: {
+      action: 'pin' | 'unpin';
+      messageId: string;
+      updatedBy: string | null;
+    },
+  ) {
+    this.server.to(`conversation:${conversationId}`).emit('pins_updated', {
+      conversationId,
+      pins,
+      ...change,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  @SubscribeMessage('follow_thread')
+  async handleFollowThread(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    await this.updateThreadFollow(client, 'follow_thread', data, true);
+  }
+
+  @SubscribeMessage('unfollow_thread')
+  async handleUnfollowThread(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string },
+  ) {
+    await this.updateThreadFollow(client, 'unfollow_thread', data, false);
+  }
+
+  @SubscribeMessage('add_reaction')
+  async handleAddReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string; emoji: string },
+  ) {
+    await this.updateReaction(client, 'add_reaction', data, 'add');
+  }
+
+  @SubscribeMessage('remove_reaction')
+  async handleRemoveReaction(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { messageId: string; emoji: string },
+  ) {
+    await this.updateReaction(client, 'remove_reaction', data, 'remove');
+  }
+
+  private async updateReaction(
+    client: Socket,
+    event: string,
+    data: { messageId: string; emoji: string },
+    action: 'add' | 'remove',
+  ) {
+    const userId: string = client.data.userId;
+    const { messageId, emoji } = data;
+
+    try {
+      if (!this.messageReactionsService.isValidEmoji(emoji)) {
+        throw new Error('Reacción inválida');
+      }
+
+      const message = await this.dynamoDBService.getMessage(messageId);
+      if (!message || message.isDeleted) {
+        throw new Error('Mensaje no encontrado');
       }
 
-      const originalMessage = await this.dynamoDBService.getMessage(replyTo);
       if (
-        !originalMessage ||
-        originalMessage.conversationId !== conversationId
+        !(await this.ensureParticipant(
+          client,
+          event,
+          message.conversationId,
+          userId,
+        ))
       ) {
-        client.emit('reply_error', { error: 'Mensaje original no encontrado' });
         return;
       }
 
-      const messageId = uuidv4();
-      const timestamp = new Date().toISOString();
+      const reactions =
+        action === 'add'
+          ? await this.messageReactionsService.addReaction(
+              message,
+              userId,
+              emoji,
+            )
+          : await this.messageReactionsService.removeReaction(
+              message,
+              userId,
+              emoji,
+            );
 
-      const replyMessageData = {
-        id: messageId,
-        conversationId,
+      this.server
+        .to(`conversation:${message.conversationId}`)
+        .emit('message_reaction_updated', {
+          messageId,
+          conversationId: message.conversationId,
+          userId,
+          emoji,
+          action,
+          reactions,
+          timestamp: new Date().toISOString(),
+        });
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      client.emit('reaction_error', { messageId, error: error.message });
+    }
+  }
+
+  private getMessageFileUrl(message: any): string | undefined {
+    return message.fileUrl || message.payload?.fileUrl;
+  }
+
+  /**
+   * En los tipos con payload, `content` ya es su resumen (nombre del
+   * archivo, de la ubicación o del contacto).
+   */
+  private getMessagePreview(message: any): string {
+    return message.rich?.plainText ?? message.content;
+  }
+
+  /**
+   * Interpreta el Markdown de un mensaje `rich`. Se guarda como `content` el
+   * Markdown sin HTML, junto al AST y el texto plano para las vistas previas.
+   */
+  private buildRichContent(content: unknown) {
+    const rich = renderRichText(typeof content === 'string' ? content : '');
+    if (!rich.plainText) {
+      throw new MessageError('INVALID_PAYLOAD', 'El mensaje está vacío');
+    }
+    return {
+      content: rich.source,
+      rich: { ast: rich.ast, plainText: rich.plainText },
+    };
+  }
+
+  /**
+   * Un mensaje de archivo o audio solo puede apuntar a un archivo que el
+   * remitente ya subió (o reenvió) a esa conversación: si no, borrar el
+   * mensaje borraría el archivo de otra conversación.
+   */
+  private async assertSentFile(
+    senderId: string,
+    conversationId: string,
+    payload?: Record<string, any>,
+  ) {
+    if (
+      payload?.fileUrl &&
+      !(await this.dynamoDBService.hasSentFileUrl(
+        payload.fileUrl,
         senderId,
-        content,
-        messageType,
-        timestamp,
-        isEdited: false,
-        isDeleted: false,
-        replyTo,
-        isReply: true,
-      };
+        conversationId,
+      ))
+    ) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        'El archivo no se ha subido a esta conversación',
+      );
+    }
+  }
+
+  async deleteMessageFile(message: any): Promise<void> {
+    const fileUrl = this.getMessageFileUrl(message);
+    if (!fileUrl) {
+      return;
+    }
+
+    try {
+      if (await this.dynamoDBService.isFileUrlShared(fileUrl, message.id)) {
+        return;
+      }
+      await this.fileStorageService.deleteFile(fileUrl);
+    } catch (fileError) {
+      console.error('Error deleting file:', fileError);
+    }
+  }
+
+  private async updatePin(
+    client: Socket,
+    event: string,
+    data: { messageId: string },
+    action: 'pin' | 'unpin',
+  ) {
+    const userId: string = client.data.userId;
+    const { messageId } = data;
+    let conversationId: string | undefined;
+
+    try {
+      const message = await this.dynamoDBService.getMessage(messageId);
+      if (!message || (action === 'pin' && message.isDeleted)) {
+        throw new Error('Mensaje no encontrado');
+      }
+      conversationId = message.conversationId;
+
+      const { pins, changed } =
+        action === 'pin'
+          ? await this.pinsService.pin(message, userId)
+          : await this.pinsService.unpin(message, userId);
+
+      if (changed) {
+        this.emitPinsUpdated(message.conversationId, pins, {
+          action,
+          messageId,
+          updatedBy: userId,
+        });
+      }
+    } catch (error) {
+      if (error instanceof ConversationAccessError && conversationId) {
+        this.rejectAccess(client, event, conversationId, error);
+        return;
+      }
+      console.error('Error updating pins:', error);
+      client.emit('pin_error', { messageId, error: error.message });
+    }
+  }
+
+  /**
+   * Aplica un voto o cierre y emite el recuento actualizado a la sala. El
+   * ack incluye el voto actual del usuario, que en las encuestas anónimas
+   * no aparece en `poll_updated`.
+   */
+  private async updatePoll(
+    client: Socket,
+    event: string,
+    messageId: string,
+    operation: (message: any) => Promise<any>,
+  ): Promise<MessageAck> {
+    const userId: string = client.data.userId;
+    let conversationId: string | undefined;
+
+    try {
+      const message = await this.dynamoDBService.getMessage(messageId);
+      conversationId = message?.conversationId;
+
+      const [pollMessage] = await this.pollsService.attachResults(
+        [await operation(message)],
+        userId,
+      );
+      this.server
+        .to(`conversation:${pollMessage.conversationId}`)
+        .emit('poll_updated', {
+          messageId,
+          conversationId: pollMessage.conversationId,
+          results: pollMessage.poll.results,
+        });
+
+      return { ok: true, message: pollMessage };
+    } catch (error) {
+      if (error instanceof ConversationAccessError && conversationId) {
+        this.rejectAccess(client, event, conversationId, error);
+        return toErrorAck(error);
+      }
+      console.error('Error updating poll:', error);
+      client.emit('poll_error', { messageId, error: error.message });
+      return toErrorAck(error);
+    }
+  }
+
+  /**
+   * Guarda o borra el borrador y lo sincroniza con el resto de sockets del
+   * usuario; el socket que lo ha cambiado lo recibe en el ack.
+   */
+  private async updateDraft(
+    client: Socket,
+    event: string,
+    conversationId: string,
+    operation: () => Promise<Draft | null>,
+  ): Promise<{ ok: true; draft: Draft | null } | MessageAck> {
+    const userId: string = client.data.userId;
 
-      await this.dynamoDBService.createMessage(replyMessageData);
+    try {
+      const draft = await operation();
+      client
+        .to(`user:${userId}`)
+        .emit('draft_updated', { conversationId, draft });
+      return { ok: true, draft };
+    } catch (error) {
+      if (error instanceof ConversationAccessError) {
+        this.rejectAccess(client, event, conversationId, error);
+        return toErrorAck(error);
+      }
+      if (!(error instanceof MessageError)) {
+        console.error('Error updating draft:', error);
+      }
+      client.emit('draft_error', {
+        conversationId,
+        error: error.message,
+        code: error.code,
+      });
+      return toErrorAck(error);
+    }
+  }
+
+  /**
+   * Al enviar un mensaje se descarta el borrador de esa conversación en todos
+   * los dispositivos del usuario.
+   */
+  private async clearDraftAfterSend(senderId: string, conversationId: string) {
+    if (await this.draftsService.clearDraft(senderId, conversationId)) {
+      this.server
+        .to(`user:${senderId}`)
+        .emit('draft_updated', { conversationId, draft: null });
+    }
+  }
+
+  private async updateThreadFollow(
+    client: Socket,
+    event: string,
+    data: { messageId: string },
+    following: boolean,
+  ) {
+    const userId: string = client.data.userId;
+    const { messageId } = data;
+
+    try {
+      const message = await this.dynamoDBService.getMessage(messageId);
+      if (!message) {
+        throw new Error('Mensaje no encontrado');
+      }
 
-      let replyPreview = originalMessage.content;
       if (
-        originalMessage.messageType === 'file' ||
-        originalMessage.messageType === 'audio'
+        !(await this.ensureParticipant(
+          client,
+          event,
+          message.conversationId,
+          userId,
+        ))
       ) {
-        try {
-          const fileData = JSON.parse(originalMessage.content);
-          const fileType =
-            originalMessage.messageType === 'audio' ? 'Audio' : 'Archivo';
-          replyPreview = `${fileType}: ${fileData.fileName || 'Sin nombre'}`;
-        } catch {
-          replyPreview =
-            originalMessage.messageType === 'audio' ? 'Audio' : 'Archivo';
-        }
+        return;
       }
 
-      if (replyPreview.length > 100) {
-        replyPreview = replyPreview.substring(0, 97) + '...';
+      const root = await this.threadsService.resolveRoot(message);
+      if (following) {
+        await this.threadsService.follow(root, userId);
+      } else {
+        await this.threadsService.unfollow(root, userId);
       }
 
-      const user = await this.dynamoDBService.getUser(senderId);
-      const senderInfo = {
-        id: senderId,
-        name: user?.name || 'Usuario',
-        avatar: user?.avatar || '',
-      };
+      client.emit('thread_follow_updated', {
+        threadRootId: root.id,
+        conversationId: root.conversationId,
+        following,
+      });
+    } catch (error) {
+      console.error('Error updating thread follow:', error);
+      client.emit('thread_error', { messageId, error: error.message });
+    }
+  }
+
+  private async updateParticipantRole(
+    client: Socket,
+    event: string,
+    data: { conversationId: string; userId: string; role: 'admin' | 'member' },
+  ) {
+    const actorId: string = client.data.userId;
+    try {
+      const { eventData, participantIds } =
+        await this.groupService.updateParticipantRole(
+          data.conversationId,
+          actorId,
+          data.userId,
+          data.role,
+        );
+      this.emitParticipantRoleUpdated(eventData, participantIds);
+    } catch (error) {
+      if (error instanceof ConversationAccessError) {
+        this.rejectAccess(client, event, data.conversationId, error);
+        return;
+      }
+      console.error('Error updating participant role:', error);
+      client.emit('group_error', {
+        event,
+        conversationId: data.conversationId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Los reintentos con el mismo `clientMessageId` devuelven el mensaje ya
+   * creado en lugar de duplicarlo; la reserva en Redis caduca a las
+   * `MESSAGES_CLIENT_ID_TTL_SECONDS`.
+   */
+  private async sendOnce(
+    senderId: string,
+    clientMessageId: string | undefined,
+    create: (messageId: string) => Promise<any>,
+  ): Promise<MessageAck> {
+    const messageId = uuidv4();
+    if (clientMessageId === undefined || clientMessageId === null) {
+      return { ok: true, message: await create(messageId) };
+    }
 
-      const eventData = {
-        ...replyMessageData,
-        replyPreview,
-        sender: senderInfo,
+    const existing = await this.reserveClientMessageId(
+      senderId,
+      clientMessageId,
+      messageId,
+    );
+    if (existing) {
+      return this.duplicateAck(existing);
+    }
+
+    try {
+      return { ok: true, message: await create(messageId) };
+    } catch (error) {
+      // Solo se libera si el mensaje no llegó a guardarse
+      if (!(await this.dynamoDBService.getMessage(messageId))) {
+        await this.redisService.releaseClientMessageId(
+          senderId,
+          clientMessageId,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reserva el `clientMessageId` con `value` (el id del mensaje o el comando)
+   * y devuelve la reserva anterior si ya estaba usado.
+   */
+  private async reserveClientMessageId(
+    senderId: string,
+    clientMessageId: unknown,
+    value: string,
+  ): Promise<string | null> {
+    if (
+      typeof clientMessageId !== 'string' ||
+      !clientMessageId ||
+      clientMessageId.length > 128
+    ) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        'clientMessageId debe ser un texto de hasta 128 caracteres',
+      );
+    }
+
+    return this.redisService.reserveClientMessageId(
+      senderId,
+      clientMessageId,
+      value,
+      this.configService.get('app.messages.clientMessageIdTtl') || 86400,
+    );
+  }
+
+  private async duplicateAck(reservation: string): Promise<MessageAck> {
+    if (reservation.startsWith(COMMAND_RESERVATION_PREFIX)) {
+      return {
+        ok: true,
+        command: reservation.slice(COMMAND_RESERVATION_PREFIX.length),
+        duplicate: true,
       };
+    }
 
-      this.server
-        .to(`conversation:${conversationId}`)
-        .emit('reply_received', eventData);
+    const existing = await this.dynamoDBService.getMessage(reservation);
+    if (!existing) {
+      throw new MessageError(
+        'SEND_IN_PROGRESS',
+        'El mensaje con este clientMessageId aún se está enviando',
+      );
+    }
+    return { ok: true, message: existing, duplicate: true };
+  }
 
-      client.emit('reply_sent_success', {
-        messageId,
+  private async ensureParticipant(
+    client: Socket,
+    event: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    try {
+      await this.conversationAccessService.assertParticipant(
         conversationId,
-        timestamp,
-      });
+        userId,
+      );
+      return true;
     } catch (error) {
-      console.error('Error processing reply:', error);
-      client.emit('reply_error', { error: 'Error interno del servidor' });
+      return this.rejectAccess(client, event, conversationId, error);
     }
   }
+
+  private async ensureGroupPermission(
+    client: Socket,
+    event: string,
+    conversationId: string,
+    userId: string,
+    action: GroupAction,
+    targetUserId?: string,
+  ): Promise<boolean> {
+    try {
+      await this.conversationAccessService.assertGroupPermission(
+        conversationId,
+        userId,
+        action,
+        targetUserId,
+      );
+      return true;
+    } catch (error) {
+      return this.rejectAccess(client, event, conversationId, error);
+    }
+  }
+
+  private rejectAccess(
+    client: Socket,
+    event: string,
+    conversationId: string,
+    error: unknown,
+  ): false {
+    if (!(error instanceof ConversationAccessError)) {
+      throw error;
+    }
+
+    client.emit('conversation_access_error', {
+      event,
+      conversationId,
+      code: error.code,
+      error: error.message,
+    });
+    return false;
+  }
+
+  private extractHandshakeToken(client: Socket): string | undefined {
+    const authToken = client.handshake.auth?.token;
+    if (typeof authToken === 'string' && authToken) {
+      return authToken.replace(/^Bearer\s+/i, '');
+    }
+
+    const [type, token] =
+      client.handshake.headers.authorization?.split(' ') ?? [];
+    return type === 'Bearer' ? token : undefined;
+  }
 }
@@ -0,0 +1,35 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { migrations } from './migrations';
+
+async function migrate() {
+  const requested = process.argv.slice(2);
+  const selected = requested.length
+    ? migrations.filter((migration) => requested.includes(migration.name))
+    : migrations;
+
+  if (requested.length && selected.length !== requested.length) {
+    const known = migrations.map((migration) => migration.name).join(', ');
+    console.error(`❌ Migración desconocida. Disponibles: ${known}`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    for (const migration of selected) {
+      console.log(`🔄 ${migration.name}: ${migration.description}`);
+      const result = await migration.run(app);
+      console.log(`✅ ${migration.name}`, result);
+    }
+  } catch (error) {
+    console.error('❌ Error ejecutando migraciones:', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+migrate();
@@ -0,0 +1,13 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesConversationTimestampMigration: Migration = {
+  name: '001-messages-conversation-timestamp',
+  description:
+    'Completa el timestamp de los mensajes antiguos para que aparezcan en conversationId-timestamp-index',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    const updated = await dynamoDBService.backfillMessageTimestamps();
+    return { updated };
+  },
+};
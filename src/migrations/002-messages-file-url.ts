@@ -0,0 +1,13 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesFileUrlMigration: Migration = {
+  name: '002-messages-file-url',
+  description:
+    'Copia el fileUrl de los mensajes de archivo a un atributo propio para fileUrl-index',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    const updated = await dynamoDBService.backfillMessageFileUrls();
+    return { updated };
+  },
+};
@@ -0,0 +1,13 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesThreadsMigration: Migration = {
+  name: '003-messages-threads',
+  description:
+    'Asigna threadRootId a las respuestas existentes y recalcula replyCount/lastReplyAt de los hilos',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    const updated = await dynamoDBService.backfillThreads();
+    return { updated };
+  },
+};
@@ -0,0 +1,12 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesSearchIndexMigration: Migration = {
+  name: '004-messages-search-index',
+  description:
+    'Reconstruye el índice de búsqueda con todos los mensajes existentes y elimina las entradas huérfanas',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    return dynamoDBService.rebuildSearchIndex();
+  },
+};
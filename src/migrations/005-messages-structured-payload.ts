@@ -0,0 +1,12 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesStructuredPayloadMigration: Migration = {
+  name: '005-messages-structured-payload',
+  description:
+    'Mueve los datos de archivo guardados como JSON en content de los mensajes de archivo y audio a payload',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    return dynamoDBService.convertFileMessagePayloads();
+  },
+};
@@ -0,0 +1,13 @@
+import { DynamoDBService } from '../services/dynamodb.service';
+import { Migration } from './migration.interface';
+
+export const messagesExpiryDayMigration: Migration = {
+  name: '006-messages-expiry-day',
+  description:
+    'Añade expiryDay a los mensajes temporales existentes para expiryDay-expiresAt-index',
+  async run(app) {
+    const dynamoDBService = app.get(DynamoDBService);
+    const updated = await dynamoDBService.backfillMessageExpiryDays();
+    return { updated };
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from './migration.interface';
+import { messagesConversationTimestampMigration } from './001-messages-conversation-timestamp';
+import { messagesFileUrlMigration } from './002-messages-file-url';
+import { messagesThreadsMigration } from './003-messages-threads';
+import { messagesSearchIndexMigration } from './004-messages-search-index';
+import { messagesStructuredPayloadMigration } from './005-messages-structured-payload';
+import { messagesExpiryDayMigration } from './006-messages-expiry-day';
+
+export const migrations: Migration[] = [
+  messagesConversationTimestampMigration,
+  messagesFileUrlMigration,
+  messagesThreadsMigration,
+  messagesSearchIndexMigration,
+  messagesStructuredPayloadMigration,
+  messagesExpiryDayMigration,
+];
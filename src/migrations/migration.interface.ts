@@ -0,0 +1,7 @@
+import { INestApplicationContext } from '@nestjs/common';
+
+export interface Migration {
+  name: string;
+  description: string;
+  run(app: INestApplicationContext): Promise<Record<string, number>>;
+}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { RedisService } from './redis.service';
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  const revoked = new Set<string>();
+
+  beforeEach(async () => {
+    revoked.clear();
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        AuthService,
+        {
+          provide: RedisService,
+          useValue: {
+            revokeToken: jest.fn((jti: string) => {
+              revoked.add(jti);
+              return Promise.resolve();
+            }),
+            isTokenRevoked: jest.fn((jti: string) =>
+              Promise.resolve(revoked.has(jti)),
+            ),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              ({
+                'app.auth.jwtIssuer': 'davichat-test',
+                'app.auth.accessTokenTtl': 60,
+                'app.auth.refreshTokenTtl': 120,
+                'app.auth.apiKey': 'secret-key',
+              })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    authService = module.get<AuthService>(AuthService);
+  });
+
+  it('issues access tokens that resolve to the user', async () => {
+    const tokens = await authService.issueTokens('user-1');
+    const payload = await authService.verifyAccessToken(tokens.accessToken);
+    expect(payload.sub).toBe('user-1');
+    expect(payload.type).toBe('access');
+  });
+
+  it('rejects refresh tokens used as access tokens', async () => {
+    const tokens = await authService.issueTokens('user-1');
+    await expect(
+      authService.verifyAccessToken(tokens.refreshToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('rotates refresh tokens and revokes the used one', async () => {
+    const tokens = await authService.issueTokens('user-1');
+    const rotated = await authService.refreshTokens(tokens.refreshToken);
+    expect(rotated.accessToken).toBeDefined();
+    await expect(
+      authService.refreshTokens(tokens.refreshToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('rejects revoked access tokens', async () => {
+    const tokens = await authService.issueTokens('user-1');
+    await authService.revokeToken(tokens.accessToken);
+    await expect(
+      authService.verifyAccessToken(tokens.accessToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('validates the configured api key', () => {
+    expect(authService.isValidApiKey('secret-key')).toBe(true);
+    expect(authService.isValidApiKey('other')).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { v4 as uuidv4 } from 'uuid';
+import { RedisService } from './redis.service';
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenPayload {
+  sub: string;
+  jti: string;
+  type: TokenType;
+  iat?: number;
+  exp?: number;
+  iss?: string;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly issuer: string;
+  private readonly accessTokenTtl: number;
+  private readonly refreshTokenTtl: number;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.issuer =
+      this.configService.get('app.auth.jwtIssuer') || 'davichat-api';
+    this.accessTokenTtl =
+      this.configService.get('app.auth.accessTokenTtl') || 900;
+    this.refreshTokenTtl =
+      this.configService.get('app.auth.refreshTokenTtl') || 2592000;
+  }
+
+  isValidApiKey(apiKey?: string): boolean {
+    const configuredKey = this.configService.get<string>('app.auth.apiKey');
+    return !!configuredKey && apiKey === configuredKey;
+  }
+
+  async issueTokens(userId: string): Promise<{
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+    tokenType: 'Bearer';
+  }> {
+    const accessToken = await this.signToken(
+      userId,
+      'access',
+      this.accessTokenTtl,
+    );
+    const refreshToken = await this.signToken(
+      userId,
+      'refresh',
+      this.refreshTokenTtl,
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTokenTtl,
+      tokenType: 'Bearer',
+    };
+  }
+
+  async verifyAccessToken(token: string): Promise<TokenPayload> {
+    return this.verifyToken(token, 'access');
+  }
+
+  async refreshTokens(refreshToken: string) {
+    const payload = await this.verifyToken(refreshToken, 'refresh');
+    await this.revokePayload(payload);
+    return this.issueTokens(payload.sub);
+  }
+
+  async revokeToken(token: string): Promise<void> {
+    try {
+      const payload = await this.jwtService.verifyAsync<TokenPayload>(token, {
+        issuer: this.issuer,
+      });
+      await this.revokePayload(payload);
+    } catch {
+      // Un token inválido o expirado ya no puede usarse
+    }
+  }
+
+  private async signToken(
+    userId: string,
+    type: TokenType,
+    expiresIn: number,
+  ): Promise<string> {
+    return this.jwtService.signAsync(
+      { sub: userId, jti: uuidv4(), type },
+      { expiresIn, issuer: this.issuer },
+    );
+  }
+
+  private async verifyToken(
+    token: string,
+    expectedType: TokenType,
+  ): Promise<TokenPayload> {
+    let payload: TokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TokenPayload>(token, {
+        issuer: this.issuer,
+      });
+    } catch {
+      throw new UnauthorizedException('Token inválido o expirado');
+    }
+
+    if (payload.type !== expectedType || !payload.sub || !payload.jti) {
+      throw new UnauthorizedException('Tipo de token inválido');
+    }
+
+    if (await this.redisService.isTokenRevoked(payload.jti)) {
+      throw new UnauthorizedException('Token revocado');
+    }
+
+    return payload;
+  }
+
+  private async revokePayload(payload: TokenPayload): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const remaining = (payload.exp || now) - now;
+    if (remaining > 0) {
+      await this.redisService.revokeToken(payload.jti, remaining);
+    }
+  }
+}
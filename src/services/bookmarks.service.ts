@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+import { ConversationAccessService } from './conversation-access.service';
+
+@Injectable()
+export class BookmarksService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  async add(userId: string, message: any) {
+    await this.conversationAccessService.assertParticipant(
+      message.conversationId,
+      userId,
+    );
+
+    return this.dynamoDBService.putBookmark({
+      userId,
+      messageId: message.id,
+      conversationId: message.conversationId,
+    });
+  }
+
+  async remove(userId: string, messageId: string): Promise<void> {
+    await this.dynamoDBService.deleteBookmark(userId, messageId);
+  }
+
+  async invalidateConversation(
+    userId: string,
+    conversationId: string,
+  ): Promise<void> {
+    try {
+      await this.dynamoDBService.deleteUserConversationBookmarks(
+        userId,
+        conversationId,
+      );
+    } catch (error) {
+      console.error('Error eliminando mensajes guardados:', error);
+    }
+  }
+
+  /**
+   * Completa cada guardado con el mensaje y el nombre de la conversación; en
+   * los chats privados el nombre es el del otro participante.
+   */
+  async attachDetails(userId: string, bookmarks: any[]) {
+    const conversationNames = new Map<string, string | null>();
+    const result: any[] = [];
+
+    for (const bookmark of bookmarks) {
+      const message = await this.dynamoDBService.getMessage(bookmark.messageId);
+      if (!message || message.isDeleted) {
+        continue;
+      }
+
+      if (!conversationNames.has(bookmark.conversationId)) {
+        conversationNames.set(
+          bookmark.conversationId,
+          await this.getConversationName(bookmark.conversationId, userId),
+        );
+      }
+
+      result.push({
+        messageId: bookmark.messageId,
+        conversationId: bookmark.conversationId,
+        conversationName: conversationNames.get(bookmark.conversationId),
+        bookmarkedAt: bookmark.bookmarkedAt,
+        message: {
+          id: message.id,
+          senderId: message.senderId,
+          content: message.content,
+          messageType: message.messageType,
+          ...(message.payload ? { payload: message.payload } : {}),
+          timestamp: message.timestamp,
+          isEdited: message.isEdited,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  private async getConversationName(
+    conversationId: string,
+    userId: string,
+  ): Promise<string | null> {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (!conversation) {
+      return null;
+    }
+    if (conversation.type === 'group') {
+      return conversation.name || null;
+    }
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+    const other = participants.find((p) => p.userId !== userId);
+    const otherUser = other
+      ? await this.dynamoDBService.getUser(other.userId)
+      : null;
+    return otherUser?.name || conversation.name || null;
+  }
+}
@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  ConversationAccessError,
+  ConversationAccessService,
+} from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+
+describe('ConversationAccessService', () => {
+  const participants: Record<string, any> = {
+    owner: { userId: 'owner', role: 'owner' },
+    admin: { userId: 'admin', role: 'admin' },
+    member: { userId: 'member', role: 'member' },
+    legacy: { userId: 'legacy' },
+    gone: { userId: 'gone', role: 'member', isActive: false },
+  };
+  let service: ConversationAccessService;
+  let redisService: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    const dynamoDBService = {
+      getParticipant: jest.fn((conversationId: string, userId: string) =>
+        Promise.resolve(participants[userId] || null),
+      ),
+      getConversation: jest.fn((conversationId: string) =>
+        Promise.resolve(
+          conversationId === 'group-1'
+            ? { id: 'group-1', type: 'group', createdBy: 'legacy' }
+            : null,
+        ),
+      ),
+    };
+    redisService = {
+      getMembership: jest.fn().mockResolvedValue(null),
+      setMembership: jest.fn().mockResolvedValue(undefined),
+      deleteMembership: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ConversationAccessService(
+      dynamoDBService as unknown as DynamoDBService,
+      redisService as unknown as RedisService,
+      { get: () => 60 } as unknown as ConfigService,
+    );
+  });
+
+  it('treats inactive participants as non members and caches the result', async () => {
+    await expect(service.isParticipant('group-1', 'gone')).resolves.toBe(false);
+    expect(redisService.setMembership).toHaveBeenCalledWith(
+      'group-1',
+      'gone',
+      false,
+      60,
+    );
+  });
+
+  it('uses the cached membership when present', async () => {
+    redisService.getMembership.mockResolvedValueOnce(true);
+    await expect(service.isParticipant('group-1', 'stranger')).resolves.toBe(
+      true,
+    );
+  });
+
+  it('reports missing conversations with a typed error', async () => {
+    await expect(
+      service.assertParticipant('missing', 'stranger'),
+    ).rejects.toMatchObject({ code: 'CONVERSATION_NOT_FOUND' });
+  });
+
+  it('falls back to createdBy for participants without a role', async () => {
+    await expect(service.getParticipantRole('group-1', 'legacy')).resolves.toBe(
+      'owner',
+    );
+  });
+
+  it('lets admins add members but not manage roles', async () => {
+    await expect(
+      service.assertGroupPermission('group-1', 'admin', 'add_member'),
+    ).resolves.toBe('admin');
+    await expect(
+      service.assertGroupPermission('group-1', 'admin', 'manage_roles'),
+    ).rejects.toBeInstanceOf(ConversationAccessError);
+  });
+
+  it('prevents removing a participant with an equal or higher role', async () => {
+    await expect(
+      service.assertGroupPermission(
+        'group-1',
+        'admin',
+        'remove_member',
+        'member',
+      ),
+    ).resolves.toBe('admin');
+    await expect(
+      service.assertGroupPermission(
+        'group-1',
+        'admin',
+        'remove_member',
+        'owner',
+      ),
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_ROLE' });
+  });
+
+  it('only allows the owner to delete the group', async () => {
+    await expect(
+      service.assertGroupPermission('group-1', 'member', 'delete'),
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_ROLE' });
+    await expect(
+      service.assertGroupPermission('group-1', 'owner', 'delete'),
+    ).resolves.toBe('owner');
+  });
+});
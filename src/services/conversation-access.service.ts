@@ -0,0 +1,202 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+
+export type ConversationAccessErrorCode =
+  | 'CONVERSATION_NOT_FOUND'
+  | 'NOT_A_PARTICIPANT'
+  | 'NOT_A_GROUP'
+  | 'INSUFFICIENT_ROLE';
+
+export type ParticipantRole = 'owner' | 'admin' | 'member';
+
+export type GroupAction =
+  | 'add_member'
+  | 'remove_member'
+  | 'rename'
+  | 'manage_roles'
+  | 'pin_message'
+  | 'set_message_ttl'
+  | 'close_poll'
+  | 'delete';
+
+const ROLE_RANK: Record<ParticipantRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+};
+
+const GROUP_PERMISSIONS: Record<GroupAction, ParticipantRole[]> = {
+  add_member: ['owner', 'admin'],
+  remove_member: ['owner', 'admin'],
+  rename: ['owner', 'admin'],
+  manage_roles: ['owner'],
+  pin_message: ['owner', 'admin'],
+  set_message_ttl: ['owner', 'admin'],
+  close_poll: ['owner', 'admin'],
+  delete: ['owner'],
+};
+
+export class ConversationAccessError extends Error {
+  constructor(
+    public readonly code: ConversationAccessErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+@Injectable()
+export class ConversationAccessService {
+  private readonly cacheTtl: number;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.cacheTtl = this.configService.get('app.membership.cacheTtl') || 300;
+  }
+
+  async isParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    if (!conversationId || !userId) {
+      return false;
+    }
+
+    const cached = await this.redisService.getMembership(
+      conversationId,
+      userId,
+    );
+    if (cached !== null) {
+      return cached;
+    }
+
+    const participant = await this.dynamoDBService.getParticipant(
+      conversationId,
+      userId,
+    );
+    const isMember =
+      !!participant && participant.isActive !== false && !participant.deletedAt;
+
+    await this.redisService.setMembership(
+      conversationId,
+      userId,
+      isMember,
+      this.cacheTtl,
+    );
+    return isMember;
+  }
+
+  async assertParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<void> {
+    if (await this.isParticipant(conversationId, userId)) {
+      return;
+    }
+
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (!conversation) {
+      throw new ConversationAccessError(
+        'CONVERSATION_NOT_FOUND',
+        'Conversación no encontrada',
+      );
+    }
+
+    throw new ConversationAccessError(
+      'NOT_A_PARTICIPANT',
+      'No eres participante de esta conversación',
+    );
+  }
+
+  async getParticipantRole(
+    conversationId: string,
+    userId: string,
+  ): Promise<ParticipantRole | null> {
+    const participant = await this.dynamoDBService.getParticipant(
+      conversationId,
+      userId,
+    );
+    if (
+      !participant ||
+      participant.isActive === false ||
+      participant.deletedAt
+    ) {
+      return null;
+    }
+
+    if (participant.role) {
+      return participant.role as ParticipantRole;
+    }
+
+    // Filas anteriores a los roles: el creador del grupo es el propietario
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    return conversation?.createdBy === userId ? 'owner' : 'member';
+  }
+
+  async assertGroupPermission(
+    conversationId: string,
+    userId: string,
+    action: GroupAction,
+    targetUserId?: string,
+  ): Promise<ParticipantRole> {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (!conversation) {
+      throw new ConversationAccessError(
+        'CONVERSATION_NOT_FOUND',
+        'Conversación no encontrada',
+      );
+    }
+
+    if (conversation.type !== 'group') {
+      throw new ConversationAccessError(
+        'NOT_A_GROUP',
+        'Esta acción solo está disponible para grupos',
+      );
+    }
+
+    const role = await this.getParticipantRole(conversationId, userId);
+    if (!role) {
+      throw new ConversationAccessError(
+        'NOT_A_PARTICIPANT',
+        'No eres participante de esta conversación',
+      );
+    }
+
+    if (!GROUP_PERMISSIONS[action].includes(role)) {
+      throw new ConversationAccessError(
+        'INSUFFICIENT_ROLE',
+        'No tienes permisos para realizar esta acción',
+      );
+    }
+
+    if (targetUserId && targetUserId !== userId) {
+      const targetRole = await this.getParticipantRole(
+        conversationId,
+        targetUserId,
+      );
+      if (targetRole && ROLE_RANK[targetRole] >= ROLE_RANK[role]) {
+        throw new ConversationAccessError(
+          'INSUFFICIENT_ROLE',
+          'No puedes gestionar a un participante con un rol igual o superior',
+        );
+      }
+    }
+
+    return role;
+  }
+
+  async invalidate(conversationId: string, userIds: string[]): Promise<void> {
+    for (const userId of userIds) {
+      await this.redisService.deleteMembership(conversationId, userId);
+    }
+  }
+}
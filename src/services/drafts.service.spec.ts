@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { ConversationAccessService } from './conversation-access.service';
+import { DraftsService } from './drafts.service';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+
+describe('DraftsService', () => {
+  let setDraft: jest.Mock;
+  let deleteDraft: jest.Mock;
+  let service: DraftsService;
+
+  beforeEach(() => {
+    setDraft = jest.fn().mockResolvedValue(undefined);
+    deleteDraft = jest.fn().mockResolvedValue(true);
+    const messages: Record<string, any> = {
+      m1: { id: 'm1', conversationId: 'c1' },
+      m2: { id: 'm2', conversationId: 'c2' },
+    };
+
+    service = new DraftsService(
+      {
+        setDraft,
+        deleteDraft,
+        getDrafts: jest.fn().mockResolvedValue({
+          c1: { conversationId: 'c1', text: 'hola', replyTo: null },
+        }),
+      } as unknown as RedisService,
+      {
+        getMessage: jest.fn((id: string) => Promise.resolve(messages[id])),
+      } as unknown as DynamoDBService,
+      {
+        assertParticipant: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ConversationAccessService,
+      { get: jest.fn().mockReturnValue(60) } as unknown as ConfigService,
+    );
+  });
+
+  it('stores the draft with its reply target and clears empty drafts', async () => {
+    const draft = await service.saveDraft('alice', 'c1', {
+      text: 'Te contesto luego',
+      replyTo: 'm1',
+    });
+
+    expect(draft).toMatchObject({
+      conversationId: 'c1',
+      text: 'Te contesto luego',
+      replyTo: 'm1',
+    });
+    expect(setDraft).toHaveBeenCalledWith('alice', 'c1', draft, 60);
+
+    await expect(
+      service.saveDraft('alice', 'c1', { text: '   ' }),
+    ).resolves.toBeNull();
+    expect(deleteDraft).toHaveBeenCalledWith('alice', 'c1');
+
+    await expect(
+      service.saveDraft('alice', 'c1', { text: 'hola', replyTo: 'm2' }),
+    ).rejects.toMatchObject({ code: 'MESSAGE_NOT_FOUND' });
+  });
+
+  it('attaches the stored draft to each conversation', async () => {
+    const conversations = await service.attachDrafts('alice', [
+      { id: 'c1' },
+      { id: 'c2' },
+    ]);
+
+    expect(conversations).toEqual([
+      {
+        id: 'c1',
+        draft: { conversationId: 'c1', text: 'hola', replyTo: null },
+      },
+      { id: 'c2', draft: null },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+import { ConversationAccessService } from './conversation-access.service';
+import { MessageError } from '../utils/message-ack';
+
+export interface Draft {
+  conversationId: string;
+  text: string;
+  replyTo: string | null;
+  updatedAt: string;
+}
+
+const MAX_DRAFT_LENGTH = 10000;
+
+@Injectable()
+export class DraftsService {
+  private readonly ttl: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttl = this.configService.get('app.drafts.ttl') || 604800;
+  }
+
+  /**
+   * Guarda el borrador del usuario en la conversación (texto y mensaje al que
+   * responde). Un borrador sin texto ni respuesta pendiente se elimina y se
+   * devuelve null.
+   */
+  async saveDraft(
+    userId: string,
+    conversationId: string,
+    input: { text?: unknown; replyTo?: unknown },
+  ): Promise<Draft | null> {
+    await this.conversationAccessService.assertParticipant(
+      conversationId,
+      userId,
+    );
+
+    const text = input?.text ?? '';
+    if (typeof text !== 'string' || text.length > MAX_DRAFT_LENGTH) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        `El borrador debe ser texto de como máximo ${MAX_DRAFT_LENGTH} caracteres`,
+      );
+    }
+
+    const replyTo = input?.replyTo || null;
+    if (replyTo !== null) {
+      const message =
+        typeof replyTo === 'string'
+          ? await this.dynamoDBService.getMessage(replyTo)
+          : null;
+      if (
+        !message ||
+        message.conversationId !== conversationId ||
+        message.isDeleted
+      ) {
+        throw new MessageError(
+          'MESSAGE_NOT_FOUND',
+          'Mensaje al que se responde no encontrado',
+        );
+      }
+    }
+
+    if (!text.trim() && !replyTo) {
+      await this.redisService.deleteDraft(userId, conversationId);
+      return null;
+    }
+
+    const draft: Draft = {
+      conversationId,
+      text,
+      replyTo: replyTo as string | null,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.redisService.setDraft(userId, conversationId, draft, this.ttl);
+    return draft;
+  }
+
+  /**
+   * Devuelve true si había un borrador que eliminar.
+   */
+  async clearDraft(userId: string, conversationId: string): Promise<boolean> {
+    return this.redisService.deleteDraft(userId, conversationId);
+  }
+
+  async attachDrafts<T extends { id: string }>(
+    userId: string,
+    conversations: T[],
+  ): Promise<(T & { draft: Draft | null })[]> {
+    const drafts = await this.redisService.getDrafts(
+      userId,
+      conversations.map((conversation) => conversation.id),
+    );
+    return conversations.map((conversation) => ({
+      ...conversation,
+      draft: drafts[conversation.id] || null,
+    }));
+  }
+}
@@ -4,6 +4,9 @@ import {
   DynamoDBClient,
   CreateTableCommand,
   DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand,
 } from '@aws-sdk/client-dynamodb';
 import {
   DynamoDBDocumentClient,
@@ -14,7 +17,36 @@ import {
   ScanCommand,
   QueryCommand,
   BatchWriteCommand,
+  BatchWriteCommandInput,
+  BatchWriteCommandOutput,
+  BatchGetCommand,
 } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { getSearchableText, tokenize } from '../utils/search-text';
+import { AudioPayloadDto, FilePayloadDto } from '../dto/message-payload.dto';
+
+export type UserChangeType = 'message' | 'membership' | 'read_state';
+
+// Días de caducidad que revisa el primer barrido, cuando aún no hay un día
+// desde el que retomarlo
+const EXPIRY_INITIAL_LOOKBACK_DAYS = 30;
+
+// Cada cuánto se consulta el estado de un índice mientras se crea
+const INDEX_STATUS_POLL_INTERVAL_MS = 5000;
+
+// Espera entre reintentos de los elementos que un BatchWrite deja sin procesar
+const BATCH_RETRY_BASE_DELAY_MS = 50;
+const BATCH_RETRY_MAX_DELAY_MS = 5000;
+
+/**
+ * Día (UTC) de `expiresAt`: partición de `expiryDay-expiresAt-index`, para
+ * que las escrituras no se concentren en una sola clave.
+ */
+function toExpiryDay(expiresAt: number): string {
+  return new Date(expiresAt * 1000).toISOString().slice(0, 10);
+}
 
 @Injectable()
 export class DynamoDBService implements OnModuleInit {
@@ -72,6 +104,7 @@ export class DynamoDBService implements OnModuleInit {
       },
       {
         name: 'messages',
+        timeToLiveAttribute: 'expiresAt',
         keySchema: [
           { AttributeName: 'id', KeyType: 'HASH' },
           { AttributeName: 'conversationId', KeyType: 'RANGE' },
@@ -79,6 +112,213 @@ export class DynamoDBService implements OnModuleInit {
         attributeDefinitions: [
           { AttributeName: 'id', AttributeType: 'S' },
           { AttributeName: 'conversationId', AttributeType: 'S' },
+          { AttributeName: 'timestamp', AttributeType: 'S' },
+          { AttributeName: 'fileUrl', AttributeType: 'S' },
+          { AttributeName: 'threadRootId', AttributeType: 'S' },
+          { AttributeName: 'expiryDay', AttributeType: 'S' },
+          { AttributeName: 'expiresAt', AttributeType: 'N' },
+        ],
+        globalSecondaryIndexes: [
+          {
+            IndexName: 'conversationId-timestamp-index',
+            KeySchema: [
+              { AttributeName: 'conversationId', KeyType: 'HASH' },
+              { AttributeName: 'timestamp', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+          {
+            IndexName: 'fileUrl-index',
+            KeySchema: [{ AttributeName: 'fileUrl', KeyType: 'HASH' }],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+          {
+            IndexName: 'threadRootId-timestamp-index',
+            KeySchema: [
+              { AttributeName: 'threadRootId', KeyType: 'HASH' },
+              { AttributeName: 'timestamp', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+          {
+            // Índice disperso: solo incluye los mensajes temporales
+            IndexName: 'expiryDay-expiresAt-index',
+            KeySchema: [
+              { AttributeName: 'expiryDay', KeyType: 'HASH' },
+              { AttributeName: 'expiresAt', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+        ],
+      },
+      {
+        name: 'message_reactions',
+        keySchema: [
+          { AttributeName: 'messageId', KeyType: 'HASH' },
+          { AttributeName: 'reactionKey', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'reactionKey', AttributeType: 'S' },
+        ],
+      },
+      {
+        name: 'message_receipts',
+        keySchema: [
+          { AttributeName: 'messageId', KeyType: 'HASH' },
+          { AttributeName: 'userId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'userId', AttributeType: 'S' },
+        ],
+      },
+      {
+        name: 'message_revisions',
+        keySchema: [
+          { AttributeName: 'messageId', KeyType: 'HASH' },
+          { AttributeName: 'revision', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'revision', AttributeType: 'N' },
+        ],
+      },
+      {
+        name: 'thread_followers',
+        keySchema: [
+          { AttributeName: 'threadRootId', KeyType: 'HASH' },
+          { AttributeName: 'userId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'threadRootId', AttributeType: 'S' },
+          { AttributeName: 'userId', AttributeType: 'S' },
+        ],
+      },
+      {
+        name: 'bookmarks',
+        keySchema: [
+          { AttributeName: 'userId', KeyType: 'HASH' },
+          { AttributeName: 'messageId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'userId', AttributeType: 'S' },
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'bookmarkedAt', AttributeType: 'S' },
+        ],
+        globalSecondaryIndexes: [
+          {
+            IndexName: 'userId-bookmarkedAt-index',
+            KeySchema: [
+              { AttributeName: 'userId', KeyType: 'HASH' },
+              { AttributeName: 'bookmarkedAt', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+          {
+            IndexName: 'messageId-index',
+            KeySchema: [{ AttributeName: 'messageId', KeyType: 'HASH' }],
+            Projection: {
+              ProjectionType: 'KEYS_ONLY',
+            },
+          },
+        ],
+      },
+      {
+        name: 'scheduled_messages',
+        keySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+        attributeDefinitions: [
+          { AttributeName: 'id', AttributeType: 'S' },
+          { AttributeName: 'conversationId', AttributeType: 'S' },
+          { AttributeName: 'status', AttributeType: 'S' },
+          { AttributeName: 'sendAt', AttributeType: 'S' },
+        ],
+        globalSecondaryIndexes: [
+          {
+            IndexName: 'conversationId-sendAt-index',
+            KeySchema: [
+              { AttributeName: 'conversationId', KeyType: 'HASH' },
+              { AttributeName: 'sendAt', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+          {
+            IndexName: 'status-sendAt-index',
+            KeySchema: [
+              { AttributeName: 'status', KeyType: 'HASH' },
+              { AttributeName: 'sendAt', KeyType: 'RANGE' },
+            ],
+            Projection: {
+              ProjectionType: 'ALL',
+            },
+          },
+        ],
+      },
+      {
+        name: 'poll_votes',
+        keySchema: [
+          { AttributeName: 'messageId', KeyType: 'HASH' },
+          { AttributeName: 'userId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'userId', AttributeType: 'S' },
+        ],
+      },
+      {
+        name: 'user_changes',
+        timeToLiveAttribute: 'expiresAt',
+        keySchema: [
+          { AttributeName: 'userId', KeyType: 'HASH' },
+          { AttributeName: 'changeId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'userId', AttributeType: 'S' },
+          { AttributeName: 'changeId', AttributeType: 'S' },
+        ],
+      },
+      {
+        name: 'message_search_index',
+        keySchema: [
+          { AttributeName: 'conversationId', KeyType: 'HASH' },
+          { AttributeName: 'termKey', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'conversationId', AttributeType: 'S' },
+          { AttributeName: 'termKey', AttributeType: 'S' },
+          { AttributeName: 'messageId', AttributeType: 'S' },
+        ],
+        globalSecondaryIndexes: [
+          {
+            IndexName: 'messageId-index',
+            KeySchema: [{ AttributeName: 'messageId', KeyType: 'HASH' }],
+            Projection: {
+              ProjectionType: 'KEYS_ONLY',
+            },
+          },
+        ],
+      },
+      {
+        name: 'hidden_messages',
+        keySchema: [
+          { AttributeName: 'messageId', KeyType: 'HASH' },
+          { AttributeName: 'userId', KeyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { AttributeName: 'messageId', AttributeType: 'S' },
+          { AttributeName: 'userId', AttributeType: 'S' },
         ],
       },
     ];
@@ -90,9 +330,14 @@ export class DynamoDBService implements OnModuleInit {
 
   private async createTableIfNotExists(tableConfig: any) {
     try {
-      await this.dynamoClient.send(
+      const description = await this.dynamoClient.send(
         new DescribeTableCommand({ TableName: tableConfig.name }),
       );
+      await this.createMissingIndexes(
+        tableConfig,
+        description.Table?.GlobalSecondaryIndexes || [],
+      );
+      await this.enableTimeToLive(tableConfig);
     } catch (error) {
       if (error.name === 'ResourceNotFoundException') {
         const createCommand = new CreateTableCommand({
@@ -113,6 +358,90 @@ export class DynamoDBService implements OnModuleInit {
     }
   }
 
+  private async enableTimeToLive(tableConfig: any) {
+    if (!tableConfig.timeToLiveAttribute) {
+      return;
+    }
+
+    // Si la tabla se acaba de crear todavía no está activa; se reintenta en el siguiente arranque
+    try {
+      const description = await this.dynamoClient.send(
+        new DescribeTimeToLiveCommand({ TableName: tableConfig.name }),
+      );
+      const status = description.TimeToLiveDescription?.TimeToLiveStatus;
+      if (status === 'ENABLED' || status === 'ENABLING') {
+        return;
+      }
+
+      await this.dynamoClient.send(
+        new UpdateTimeToLiveCommand({
+          TableName: tableConfig.name,
+          TimeToLiveSpecification: {
+            AttributeName: tableConfig.timeToLiveAttribute,
+            Enabled: true,
+          },
+        }),
+      );
+      console.log(
+        `[DynamoDB] TTL activado en ${tableConfig.name} (${tableConfig.timeToLiveAttribute})`,
+      );
+    } catch (error) {
+      console.warn(
+        `[DynamoDB] No se pudo activar el TTL en ${tableConfig.name}:`,
+        error.message,
+      );
+    }
+  }
+
+  private async createMissingIndexes(
+    tableConfig: any,
+    existingIndexes: { IndexName?: string }[],
+  ) {
+    const existingNames = existingIndexes.map((index) => index.IndexName);
+    const missingIndexes = (tableConfig.globalSecondaryIndexes || []).filter(
+      (index) => !existingNames.includes(index.IndexName),
+    );
+
+    // DynamoDB solo permite crear un índice por UpdateTable: se crean de uno en
+    // uno, esperando a que cada uno termine de rellenarse antes del siguiente
+    for (const index of missingIndexes) {
+      await this.waitForActiveIndexes(tableConfig.name);
+      await this.dynamoClient.send(
+        new UpdateTableCommand({
+          TableName: tableConfig.name,
+          AttributeDefinitions: tableConfig.attributeDefinitions,
+          GlobalSecondaryIndexUpdates: [{ Create: index }],
+        }),
+      );
+      console.log(
+        `[DynamoDB] Creando índice ${index.IndexName} en ${tableConfig.name}`,
+      );
+      await this.waitForActiveIndexes(tableConfig.name);
+      console.log(
+        `[DynamoDB] Índice ${index.IndexName} activo en ${tableConfig.name}`,
+      );
+    }
+  }
+
+  private async waitForActiveIndexes(tableName: string) {
+    for (;;) {
+      const { Table } = await this.dynamoClient.send(
+        new DescribeTableCommand({ TableName: tableName }),
+      );
+      const pending =
+        Table?.TableStatus !== 'ACTIVE' ||
+        (Table.GlobalSecondaryIndexes || []).some(
+          (index) => index.IndexStatus !== 'ACTIVE',
+        );
+      if (!pending) {
+        return;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, INDEX_STATUS_POLL_INTERVAL_MS),
+      );
+    }
+  }
+
   async createUser(userData: any): Promise<void> {
     const command = new PutCommand({
       TableName: 'users',
@@ -226,15 +555,96 @@ export class DynamoDBService implements OnModuleInit {
     }
   }
 
+  async updateConversationDetails(
+    conversationId: string,
+    details: { name?: string; description?: string },
+  ): Promise<any> {
+    const command = new UpdateCommand({
+      TableName: 'conversations',
+      Key: { id: conversationId },
+      UpdateExpression:
+        'SET #name = :name, description = :description, updatedAt = :updatedAt',
+      ExpressionAttributeNames: {
+        '#name': 'name',
+      },
+      ExpressionAttributeValues: {
+        ':name': details.name,
+        ':description': details.description,
+        ':updatedAt': new Date().toISOString(),
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+    const result = await this.client.send(command);
+    return result.Attributes;
+  }
+
+  async updateConversationMessageTtl(
+    conversationId: string,
+    messageTtl: number | null,
+  ): Promise<any> {
+    const command = new UpdateCommand({
+      TableName: 'conversations',
+      Key: { id: conversationId },
+      UpdateExpression: messageTtl
+        ? 'SET messageTtl = :messageTtl, updatedAt = :updatedAt'
+        : 'SET updatedAt = :updatedAt REMOVE messageTtl',
+      ExpressionAttributeValues: {
+        ':updatedAt': new Date().toISOString(),
+        ...(messageTtl ? { ':messageTtl': messageTtl } : {}),
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+    const result = await this.client.send(command);
+    return result.Attributes;
+  }
+
+  /**
+   * Sustituye la lista de mensajes fijados solo si nadie la ha cambiado desde
+   * `expectedUpdatedAt`; devuelve false si hubo una modificación concurrente.
+   */
+  async updatePinnedMessages(
+    conversationId: string,
+    pinnedMessages: any[],
+    expectedUpdatedAt?: string,
+  ): Promise<boolean> {
+    const command = new UpdateCommand({
+      TableName: 'conversations',
+      Key: { id: conversationId },
+      UpdateExpression:
+        'SET pinnedMessages = :pinnedMessages, pinsUpdatedAt = :pinsUpdatedAt',
+      ConditionExpression: expectedUpdatedAt
+        ? 'pinsUpdatedAt = :expectedUpdatedAt'
+        : 'attribute_exists(id) AND attribute_not_exists(pinsUpdatedAt)',
+      ExpressionAttributeValues: {
+        ':pinnedMessages': pinnedMessages,
+        ':pinsUpdatedAt': new Date().toISOString(),
+        ...(expectedUpdatedAt
+          ? { ':expectedUpdatedAt': expectedUpdatedAt }
+          : {}),
+      },
+    });
+
+    try {
+      await this.client.send(command);
+      return true;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   async deleteConversationMessages(conversationId: string): Promise<number> {
     let totalDeleted = 0;
     let lastEvaluatedKey: any = undefined;
 
     try {
       do {
-        const scanCommand = new ScanCommand({
+        const queryCommand = new QueryCommand({
           TableName: 'messages',
-          FilterExpression: 'conversationId = :conversationId',
+          IndexName: 'conversationId-timestamp-index',
+          KeyConditionExpression: 'conversationId = :conversationId',
           ExpressionAttributeValues: {
             ':conversationId': conversationId,
           },
@@ -242,7 +652,7 @@ export class DynamoDBService implements OnModuleInit {
           ExclusiveStartKey: lastEvaluatedKey,
         });
 
-        const result = await this.client.send(scanCommand);
+        const result = await this.client.send(queryCommand);
         const items = result.Items || [];
         lastEvaluatedKey = result.LastEvaluatedKey;
 
@@ -264,6 +674,10 @@ export class DynamoDBService implements OnModuleInit {
 
           await this.client.send(batchWriteCommand);
           totalDeleted += items.length;
+
+          for (const message of items) {
+            await this.deleteMessageRelations(message.id);
+          }
         }
       } while (lastEvaluatedKey);
 
@@ -284,6 +698,14 @@ export class DynamoDBService implements OnModuleInit {
       userId,
     );
     if (existingParticipant) {
+      // Un participante activo conserva su rol; uno reincorporado vuelve como miembro
+      const isActiveParticipant =
+        existingParticipant.isActive !== false &&
+        !existingParticipant.deletedAt;
+      const role =
+        participantData.role ||
+        (isActiveParticipant ? existingParticipant.role : undefined) ||
+        'member';
       const command = new UpdateCommand({
         TableName: 'conversation_participants',
         Key: {
@@ -291,15 +713,23 @@ export class DynamoDBService implements OnModuleInit {
           userId,
         },
         UpdateExpression:
-          'SET unreadCount = :unreadCount, lastReadAt = :lastReadAt, isActive = :isActive, updatedAt = :updatedAt REMOVE deletedAt',
+          'SET unreadCount = :unreadCount, lastReadAt = :lastReadAt, isActive = :isActive, #role = :role, updatedAt = :updatedAt REMOVE deletedAt, mentionCount',
+        ExpressionAttributeNames: {
+          '#role': 'role',
+        },
         ExpressionAttributeValues: {
           ':unreadCount': participantData.unreadCount || 0,
           ':lastReadAt': participantData.lastReadAt || new Date().toISOString(),
           ':isActive': true,
+          ':role': role,
           ':updatedAt': new Date().toISOString(),
         },
       });
       await this.client.send(command);
+      await this.recordConversationChange(conversationId, {
+        type: 'membership',
+        userId,
+      });
       return;
     }
 
@@ -308,6 +738,7 @@ export class DynamoDBService implements OnModuleInit {
       Item: {
         conversationId,
         userId,
+        role: 'member',
         ...participantData,
         isActive: true,
         joinedAt: new Date().toISOString(),
@@ -322,6 +753,10 @@ export class DynamoDBService implements OnModuleInit {
       console.error('[DynamoDB] Error al crear participante:', error);
       throw error;
     }
+    await this.recordConversationChange(conversationId, {
+      type: 'membership',
+      userId,
+    });
   }
 
   async getParticipant(conversationId: string, userId: string): Promise<any> {
@@ -345,7 +780,8 @@ export class DynamoDBService implements OnModuleInit {
     const command = new QueryCommand({
       TableName: 'conversation_participants',
       KeyConditionExpression: 'conversationId = :conversationId',
-      FilterExpression: 'isActive = :isActive OR attribute_not_exists(isActive)',
+      FilterExpression:
+        'isActive = :isActive OR attribute_not_exists(isActive)',
       ExpressionAttributeValues: {
         ':conversationId': conversationId,
         ':isActive': true,
@@ -366,6 +802,61 @@ export class DynamoDBService implements OnModuleInit {
     }
   }
 
+  async updateParticipantRole(
+    conversationId: string,
+    userId: string,
+    role: string,
+  ): Promise<void> {
+    const command = new UpdateCommand({
+      TableName: 'conversation_participants',
+      Key: {
+        conversationId,
+        userId,
+      },
+      UpdateExpression: 'SET #role = :role, updatedAt = :updatedAt',
+      ExpressionAttributeNames: {
+        '#role': 'role',
+      },
+      ExpressionAttributeValues: {
+        ':role': role,
+        ':updatedAt': new Date().toISOString(),
+      },
+      ConditionExpression: 'attribute_exists(conversationId)',
+    });
+    await this.client.send(command);
+    await this.recordConversationChange(conversationId, {
+      type: 'membership',
+      userId,
+    });
+  }
+
+  /**
+   * Silencia la conversación para el participante hasta `mutedUntil`; con
+   * null deja de estar silenciada.
+   */
+  async updateParticipantMute(
+    conversationId: string,
+    userId: string,
+    mutedUntil: string | null,
+  ): Promise<void> {
+    const command = new UpdateCommand({
+      TableName: 'conversation_participants',
+      Key: {
+        conversationId,
+        userId,
+      },
+      UpdateExpression: mutedUntil
+        ? 'SET mutedUntil = :mutedUntil, updatedAt = :updatedAt'
+        : 'SET updatedAt = :updatedAt REMOVE mutedUntil',
+      ExpressionAttributeValues: {
+        ...(mutedUntil ? { ':mutedUntil': mutedUntil } : {}),
+        ':updatedAt': new Date().toISOString(),
+      },
+      ConditionExpression: 'attribute_exists(conversationId)',
+    });
+    await this.client.send(command);
+  }
+
   async removeParticipant(
     conversationId: string,
     userId: string,
@@ -398,29 +889,170 @@ export class DynamoDBService implements OnModuleInit {
       );
       throw error;
     }
+
+    // El usuario eliminado ya no figura entre los participantes activos
+    const change = { type: 'membership' as const, conversationId, userId };
+    await this.recordConversationChange(conversationId, change);
+    await this.recordUserChanges([userId], change);
   }
 
-  async createMessage(messageData: any): Promise<void> {
-    const command = new PutCommand({
+  /**
+   * Guarda el mensaje y devuelve el item almacenado. Si la conversación tiene
+   * mensajes temporales se añade `expiresAt` (segundos epoch), el atributo
+   * TTL de la tabla, y `expiryDay` para `expiryDay-expiresAt-index`.
+   */
+  async createMessage(messageData: any): Promise<any> {
+    const timestamp = new Date().toISOString();
+    const conversation = await this.getConversation(messageData.conversationId);
+    const expiresAt: number | undefined = conversation?.messageTtl
+      ? Math.floor(Date.parse(timestamp) / 1000) + conversation.messageTtl
+      : undefined;
+    const item = {
+      ...messageData,
+      timestamp,
+      ...(expiresAt ? { expiresAt, expiryDay: toExpiryDay(expiresAt) } : {}),
+    };
+
+    const command = new PutCommand({
       TableName: 'messages',
-      Item: {
-        ...messageData,
-        timestamp: new Date().toISOString(),
-      },
+      Item: item,
     });
     await this.client.send(command);
+    await this.indexMessageForSearch(item, false);
+    await this.recordConversationChange(item.conversationId, {
+      type: 'message',
+      messageId: item.id,
+    });
+    return item;
   }
 
   async getConversationMessages(conversationId: string): Promise<any[]> {
-    const command = new ScanCommand({
+    const messages: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'messages',
+        IndexName: 'conversationId-timestamp-index',
+        KeyConditionExpression: 'conversationId = :conversationId',
+        ExpressionAttributeValues: {
+          ':conversationId': conversationId,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      messages.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return messages;
+  }
+
+  /**
+   * Página de mensajes ordenada por timestamp. Sin `startAfter` devuelve los
+   * más recientes; `direction` indica si se avanza hacia mensajes más antiguos
+   * o más nuevos a partir del mensaje de referencia (excluido).
+   */
+  async getConversationMessagesPage(
+    conversationId: string,
+    options: {
+      limit: number;
+      direction: 'older' | 'newer';
+      startAfter?: { id: string; timestamp: string };
+    },
+  ): Promise<{ items: any[]; hasMore: boolean }> {
+    const command = new QueryCommand({
       TableName: 'messages',
-      FilterExpression: 'conversationId = :conversationId',
+      IndexName: 'conversationId-timestamp-index',
+      KeyConditionExpression: 'conversationId = :conversationId',
       ExpressionAttributeValues: {
         ':conversationId': conversationId,
       },
+      ScanIndexForward: options.direction === 'newer',
+      Limit: options.limit,
+      ExclusiveStartKey: options.startAfter
+        ? {
+            id: options.startAfter.id,
+            conversationId,
+            timestamp: options.startAfter.timestamp,
+          }
+        : undefined,
     });
     const result = await this.client.send(command);
-    return result.Items || [];
+    return {
+      items: result.Items || [],
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  async getConversationMessagesSince(
+    conversationId: string,
+    since: string,
+  ): Promise<any[]> {
+    const messages: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'messages',
+        IndexName: 'conversationId-timestamp-index',
+        KeyConditionExpression:
+          'conversationId = :conversationId AND #timestamp > :since',
+        ExpressionAttributeNames: {
+          '#timestamp': 'timestamp',
+        },
+        ExpressionAttributeValues: {
+          ':conversationId': conversationId,
+          ':since': since,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      messages.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return messages;
+  }
+
+  async backfillMessageTimestamps(): Promise<number> {
+    let updated = 0;
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const scanCommand = new ScanCommand({
+        TableName: 'messages',
+        FilterExpression: 'attribute_not_exists(#timestamp)',
+        ExpressionAttributeNames: {
+          '#timestamp': 'timestamp',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(scanCommand);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const message of result.Items || []) {
+        await this.client.send(
+          new UpdateCommand({
+            TableName: 'messages',
+            Key: { id: message.id, conversationId: message.conversationId },
+            UpdateExpression: 'SET #timestamp = :timestamp',
+            ExpressionAttributeNames: {
+              '#timestamp': 'timestamp',
+            },
+            ExpressionAttributeValues: {
+              ':timestamp':
+                message.createdAt ||
+                message.updatedAt ||
+                new Date(0).toISOString(),
+            },
+          }),
+        );
+        updated++;
+      }
+    } while (lastEvaluatedKey);
+
+    return updated;
   }
 
   async updateParticipantReadStatus(
@@ -435,14 +1067,43 @@ export class DynamoDBService implements OnModuleInit {
         conversationId,
         userId,
       },
+      // Al marcar como leído también se reinician las menciones pendientes
       UpdateExpression:
-        'SET unreadCount = :unreadCount, lastReadAt = :lastReadAt',
+        unreadCount === 0
+          ? 'SET unreadCount = :unreadCount, lastReadAt = :lastReadAt, mentionCount = :unreadCount'
+          : 'SET unreadCount = :unreadCount, lastReadAt = :lastReadAt',
       ExpressionAttributeValues: {
         ':unreadCount': unreadCount,
         ':lastReadAt': lastReadAt,
       },
     });
     await this.client.send(command);
+
+    // Los incrementos por mensajes nuevos ya se registran como cambio del mensaje
+    if (unreadCount === 0) {
+      await this.recordUserChanges([userId], {
+        type: 'read_state',
+        conversationId,
+      });
+    }
+  }
+
+  async incrementParticipantMentionCount(
+    conversationId: string,
+    userId: string,
+  ): Promise<void> {
+    const command = new UpdateCommand({
+      TableName: 'conversation_participants',
+      Key: {
+        conversationId,
+        userId,
+      },
+      UpdateExpression: 'ADD mentionCount :one',
+      ExpressionAttributeValues: {
+        ':one': 1,
+      },
+    });
+    await this.client.send(command);
   }
 
   async getUserConversations(userId: string): Promise<any[]> {
@@ -451,7 +1112,8 @@ export class DynamoDBService implements OnModuleInit {
         TableName: 'conversation_participants',
         IndexName: 'userId-index',
         KeyConditionExpression: 'userId = :userId',
-        FilterExpression: 'isActive = :isActive OR attribute_not_exists(isActive)',
+        FilterExpression:
+          'isActive = :isActive OR attribute_not_exists(isActive)',
         ExpressionAttributeValues: {
           ':userId': userId,
           ':isActive': true,
@@ -484,7 +1146,7 @@ export class DynamoDBService implements OnModuleInit {
           conversation.id,
           userId,
         );
-        
+
         const activeParticipants = await this.getConversationParticipants(
           conversation.id,
         );
@@ -501,7 +1163,10 @@ export class DynamoDBService implements OnModuleInit {
             });
             await this.client.send(deleteCommand);
             await new Promise((resolve) => setTimeout(resolve, 200));
-            const verifyDeleted = await this.getParticipant(conversation.id, userId);
+            const verifyDeleted = await this.getParticipant(
+              conversation.id,
+              userId,
+            );
             if (verifyDeleted) {
               await new Promise((resolve) => setTimeout(resolve, 300));
               await this.client.send(deleteCommand);
@@ -516,7 +1181,9 @@ export class DynamoDBService implements OnModuleInit {
           ...conversation,
           participants: activeParticipantIds,
           unreadCount: participant.unreadCount || 0,
+          mentionCount: participant.mentionCount || 0,
           lastReadAt: participant.lastReadAt || null,
+          mutedUntil: participant.mutedUntil || null,
         };
 
         conversations.push(updatedConversation);
@@ -584,7 +1251,9 @@ export class DynamoDBService implements OnModuleInit {
           ...conversation,
           participants: activeParticipantIds,
           unreadCount: participant.unreadCount || 0,
+          mentionCount: participant.mentionCount || 0,
           lastReadAt: participant.lastReadAt || null,
+          mutedUntil: participant.mutedUntil || null,
         };
 
         conversations.push(updatedConversation);
@@ -644,24 +1313,31 @@ export class DynamoDBService implements OnModuleInit {
     return result.Items || [];
   }
 
+  /**
+   * `id` es la clave de partición de `messages`, así que basta con un Query
+   * sobre ella para resolver el mensaje sin conocer su conversationId.
+   */
+  private async findMessageById(messageId: string): Promise<any> {
+    const command = new QueryCommand({
+      TableName: 'messages',
+      KeyConditionExpression: 'id = :messageId',
+      ExpressionAttributeValues: {
+        ':messageId': messageId,
+      },
+      Limit: 1,
+    });
+    const result = await this.client.send(command);
+    return result.Items && result.Items.length > 0 ? result.Items[0] : null;
+  }
+
   async deleteMessage(messageId: string): Promise<void> {
     try {
-      const scanCommand = new ScanCommand({
-        TableName: 'messages',
-        FilterExpression: 'id = :messageId',
-        ExpressionAttributeValues: {
-          ':messageId': messageId,
-        },
-      });
-
-      const result = await this.client.send(scanCommand);
+      const message = await this.findMessageById(messageId);
 
-      if (!result.Items || result.Items.length === 0) {
+      if (!message) {
         throw new Error('Mensaje no encontrado');
       }
 
-      const message = result.Items[0];
-
       const deleteCommand = new DeleteCommand({
         TableName: 'messages',
         Key: {
@@ -670,24 +1346,35 @@ export class DynamoDBService implements OnModuleInit {
         },
       });
       await this.client.send(deleteCommand);
+      await this.deleteMessageRelations(messageId);
+      await this.recordConversationChange(message.conversationId, {
+        type: 'message',
+        messageId,
+      });
+
+      if (message.threadRootId) {
+        await this.decrementThreadReplyCount(message);
+      }
     } catch (error) {
       console.error('Error eliminando mensaje:', error);
       throw error;
     }
   }
 
+  private async deleteMessageRelations(messageId: string): Promise<void> {
+    await this.deleteMessageReactions(messageId);
+    await this.deleteMessageReceipts(messageId);
+    await this.deleteMessageRevisions(messageId);
+    await this.deleteHiddenMessage(messageId);
+    await this.deleteThreadFollowers(messageId);
+    await this.deleteMessageBookmarks(messageId);
+    await this.deletePollVotes(messageId);
+    await this.removeMessageFromSearch(messageId);
+  }
+
   async getMessage(messageId: string): Promise<any> {
     try {
-      const scanCommand = new ScanCommand({
-        TableName: 'messages',
-        FilterExpression: 'id = :messageId',
-        ExpressionAttributeValues: {
-          ':messageId': messageId,
-        },
-      });
-
-      const result = await this.client.send(scanCommand);
-      return result.Items && result.Items.length > 0 ? result.Items[0] : null;
+      return await this.findMessageById(messageId);
     } catch (error) {
       console.error('Error getting message:', error);
       throw error;
@@ -696,17 +1383,17 @@ export class DynamoDBService implements OnModuleInit {
 
   async getMessageByFileUrl(fileUrl: string): Promise<any> {
     try {
-      const scanCommand = new ScanCommand({
+      const command = new QueryCommand({
         TableName: 'messages',
-        FilterExpression:
-          'contains(content, :fileUrl) AND messageType = :messageType',
+        IndexName: 'fileUrl-index',
+        KeyConditionExpression: 'fileUrl = :fileUrl',
         ExpressionAttributeValues: {
           ':fileUrl': fileUrl,
-          ':messageType': 'file',
         },
+        Limit: 1,
       });
 
-      const result = await this.client.send(scanCommand);
+      const result = await this.client.send(command);
       return result.Items && result.Items.length > 0 ? result.Items[0] : null;
     } catch (error) {
       console.error('Error getting message by file URL:', error);
@@ -714,23 +1401,92 @@ export class DynamoDBService implements OnModuleInit {
     }
   }
 
-  async updateMessage(messageId: string, newContent: string): Promise<void> {
-    try {
-      const scanCommand = new ScanCommand({
+  /**
+   * Los mensajes reenviados comparten el archivo del original; solo se puede
+   * borrar el archivo si ningún otro mensaje lo referencia.
+   */
+  async isFileUrlShared(fileUrl: string, messageId: string): Promise<boolean> {
+    const command = new QueryCommand({
+      TableName: 'messages',
+      IndexName: 'fileUrl-index',
+      KeyConditionExpression: 'fileUrl = :fileUrl',
+      ExpressionAttributeValues: {
+        ':fileUrl': fileUrl,
+      },
+      Limit: 2,
+    });
+    const result = await this.client.send(command);
+    return (result.Items || []).some((item) => item.id !== messageId);
+  }
+
+  /**
+   * Indica si `senderId` ya tiene en la conversación un mensaje con ese
+   * archivo: el que crea `/api/upload` al subirlo o un reenvío suyo.
+   */
+  async hasSentFileUrl(
+    fileUrl: string,
+    senderId: string,
+    conversationId: string,
+  ): Promise<boolean> {
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
         TableName: 'messages',
-        FilterExpression: 'id = :messageId',
+        IndexName: 'fileUrl-index',
+        KeyConditionExpression: 'fileUrl = :fileUrl',
+        FilterExpression:
+          'senderId = :senderId AND conversationId = :conversationId',
         ExpressionAttributeValues: {
-          ':messageId': messageId,
+          ':fileUrl': fileUrl,
+          ':senderId': senderId,
+          ':conversationId': conversationId,
         },
+        ExclusiveStartKey: lastEvaluatedKey,
       });
+      const result = await this.client.send(command);
+      if (result.Items && result.Items.length > 0) {
+        return true;
+      }
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
 
-      const result = await this.client.send(scanCommand);
+    return false;
+  }
+
+  /**
+   * Sustituye el contenido del mensaje guardando cada versión en
+   * `message_revisions`. La revisión 0 conserva el contenido original. En los
+   * mensajes `rich` se sustituyen también el AST y el texto plano, y con
+   * `mentions` las menciones resueltas del nuevo contenido.
+   */
+  async updateMessage(
+    messageId: string,
+    newContent: string,
+    editedBy: string,
+    rich?: { ast: any[]; plainText: string },
+    mentions?: string[],
+  ): Promise<any> {
+    try {
+      const message = await this.findMessageById(messageId);
 
-      if (!result.Items || result.Items.length === 0) {
+      if (!message) {
         throw new Error('Message not found');
       }
 
-      const message = result.Items[0];
+      const currentRevision: number = message.revisionCount || 0;
+      const editedAt = new Date().toISOString();
+
+      if (currentRevision === 0) {
+        await this.putMessageRevision({
+          messageId,
+          revision: 0,
+          conversationId: message.conversationId,
+          content: message.content,
+          editedAt: message.updatedAt || message.timestamp,
+          editedBy: message.senderId,
+        });
+      }
 
       const command = new UpdateCommand({
         TableName: 'messages',
@@ -738,22 +1494,1482 @@ export class DynamoDBService implements OnModuleInit {
           id: messageId,
           conversationId: message.conversationId,
         },
-        UpdateExpression:
-          'SET content = :content, isEdited = :isEdited, updatedAt = :updatedAt',
+        UpdateExpression: `SET content = :content, isEdited = :isEdited, updatedAt = :updatedAt, revisionCount = :revisionCount${rich ? ', rich = :rich' : ''}${mentions?.length ? ', mentions = :mentions' : ''}${mentions && !mentions.length ? ' REMOVE mentions' : ''}`,
+        ConditionExpression:
+          'attribute_not_exists(revisionCount) OR revisionCount = :currentRevision',
         ExpressionAttributeValues: {
           ':content': newContent,
           ':isEdited': true,
-          ':updatedAt': new Date().toISOString(),
+          ':updatedAt': editedAt,
+          ':revisionCount': currentRevision + 1,
+          ':currentRevision': currentRevision,
+          ...(rich ? { ':rich': rich } : {}),
+          ...(mentions?.length ? { ':mentions': mentions } : {}),
         },
+        ReturnValues: 'ALL_NEW',
       });
 
-      await this.client.send(command);
+      const result = await this.client.send(command);
+
+      await this.putMessageRevision({
+        messageId,
+        revision: currentRevision + 1,
+        conversationId: message.conversationId,
+        content: newContent,
+        editedAt,
+        editedBy,
+      });
+      await this.indexMessageForSearch(result.Attributes);
+      await this.recordConversationChange(message.conversationId, {
+        type: 'message',
+        messageId,
+      });
+
+      return result.Attributes;
     } catch (error) {
       console.error('Error updating message:', error);
       throw error;
     }
   }
 
+  async getMessageRevisions(messageId: string): Promise<any[]> {
+    const command = new QueryCommand({
+      TableName: 'message_revisions',
+      KeyConditionExpression: 'messageId = :messageId',
+      ExpressionAttributeValues: {
+        ':messageId': messageId,
+      },
+      ScanIndexForward: true,
+    });
+    const result = await this.client.send(command);
+    return result.Items || [];
+  }
+
+  async deleteMessageRevisions(messageId: string): Promise<void> {
+    const revisions = await this.getMessageRevisions(messageId);
+    await this.batchDelete(
+      'message_revisions',
+      revisions.map((revision) => ({
+        messageId: revision.messageId,
+        revision: revision.revision,
+      })),
+    );
+  }
+
+  /**
+   * Borrado para todos: conserva la fila para que las respuestas sigan
+   * resolviendo el mensaje, pero elimina el contenido, el archivo asociado,
+   * las reacciones, el historial de ediciones y los guardados.
+   */
+  async tombstoneMessage(messageId: string, deletedBy: string): Promise<any> {
+    try {
+      const message = await this.findMessageById(messageId);
+
+      if (!message) {
+        throw new Error('Mensaje no encontrado');
+      }
+
+      const command = new UpdateCommand({
+        TableName: 'messages',
+        Key: {
+          id: messageId,
+          conversationId: message.conversationId,
+        },
+        UpdateExpression:
+          'SET content = :content, isDeleted = :isDeleted, deletedAt = :deletedAt, deletedBy = :deletedBy REMOVE fileUrl, poll, rich, payload',
+        ExpressionAttributeValues: {
+          ':content': '',
+          ':isDeleted': true,
+          ':deletedAt': new Date().toISOString(),
+          ':deletedBy': deletedBy,
+        },
+        ReturnValues: 'ALL_NEW',
+      });
+
+      const result = await this.client.send(command);
+      await this.deleteMessageReactions(messageId);
+      await this.deleteMessageRevisions(messageId);
+      await this.deleteMessageBookmarks(messageId);
+      await this.deletePollVotes(messageId);
+      await this.removeMessageFromSearch(messageId);
+      await this.recordConversationChange(message.conversationId, {
+        type: 'message',
+        messageId,
+      });
+      return result.Attributes;
+    } catch (error) {
+      console.error('Error marcando mensaje como eliminado:', error);
+      throw error;
+    }
+  }
+
+  async getDeletedMessagesBefore(cutoff: string): Promise<any[]> {
+    const messages: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new ScanCommand({
+        TableName: 'messages',
+        FilterExpression: 'isDeleted = :isDeleted AND deletedAt < :cutoff',
+        ExpressionAttributeValues: {
+          ':isDeleted': true,
+          ':cutoff': cutoff,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      messages.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return messages;
+  }
+
+  /**
+   * Mensajes cuyo `expiresAt` ya pasó. El TTL de DynamoDB puede tardar en
+   * borrarlos, así que el barrido de la API los elimina antes. Recorre los
+   * días de `expiryDay-expiresAt-index` desde `fromDay` hasta hoy y devuelve
+   * en `pendingDay` el primer día que no ha quedado vacío, desde el que debe
+   * seguir el siguiente barrido.
+   */
+  async getExpiredMessages(
+    now: number,
+    limit: number,
+    fromDay: string | null,
+  ): Promise<{ messages: any[]; pendingDay: string }> {
+    const today = toExpiryDay(now);
+    const messages: any[] = [];
+    let day =
+      fromDay || toExpiryDay(now - EXPIRY_INITIAL_LOOKBACK_DAYS * 24 * 60 * 60);
+    if (day > today) {
+      day = today;
+    }
+
+    for (;;) {
+      let lastEvaluatedKey: any = undefined;
+      do {
+        const command = new QueryCommand({
+          TableName: 'messages',
+          IndexName: 'expiryDay-expiresAt-index',
+          KeyConditionExpression: 'expiryDay = :day AND expiresAt <= :now',
+          ExpressionAttributeValues: {
+            ':day': day,
+            ':now': now,
+          },
+          Limit: limit - messages.length,
+          ExclusiveStartKey: lastEvaluatedKey,
+        });
+        const result = await this.client.send(command);
+        messages.push(...(result.Items || []));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey && messages.length < limit);
+
+      if (day >= today || messages.length >= limit) {
+        return { messages: messages.slice(0, limit), pendingDay: day };
+      }
+      day = toExpiryDay(Date.parse(`${day}T00:00:00.000Z`) / 1000 + 86400);
+    }
+  }
+
+  /**
+   * Cuenta un intento fallido de borrar un mensaje caducado. Al llegar a
+   * `maxAttempts` lo saca de `expiryDay-expiresAt-index` (conserva
+   * `expiresAt`, así que lo acaba borrando el TTL) y devuelve false: el
+   * barrido deja de reintentarlo. También devuelve false si ya no existe.
+   */
+  async recordMessageExpiryFailure(
+    messageId: string,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    try {
+      const result = await this.client.send(
+        new UpdateCommand({
+          TableName: 'messages',
+          Key: { id: messageId },
+          UpdateExpression:
+            'SET expiryAttempts = if_not_exists(expiryAttempts, :zero) + :one',
+          ConditionExpression: 'attribute_exists(id)',
+          ExpressionAttributeValues: { ':zero': 0, ':one': 1 },
+          ReturnValues: 'UPDATED_NEW',
+        }),
+      );
+      if ((result.Attributes?.expiryAttempts as number) < maxAttempts) {
+        return true;
+      }
+
+      await this.client.send(
+        new UpdateCommand({
+          TableName: 'messages',
+          Key: { id: messageId },
+          UpdateExpression: 'REMOVE expiryDay',
+          ConditionExpression: 'attribute_exists(id)',
+        }),
+      );
+      return false;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Añade `expiryDay` a los mensajes temporales creados antes de que
+   * existiera `expiryDay-expiresAt-index`.
+   */
+  async backfillMessageExpiryDays(): Promise<number> {
+    let updated = 0;
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const result = await this.client.send(
+        new ScanCommand({
+          TableName: 'messages',
+          FilterExpression:
+            'attribute_exists(expiresAt) AND attribute_not_exists(expiryDay)',
+          ExclusiveStartKey: lastEvaluatedKey,
+        }),
+      );
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const message of result.Items || []) {
+        await this.client.send(
+          new UpdateCommand({
+            TableName: 'messages',
+            Key: { id: message.id, conversationId: message.conversationId },
+            UpdateExpression: 'SET expiryDay = :expiryDay',
+            ExpressionAttributeValues: {
+              ':expiryDay': toExpiryDay(message.expiresAt),
+            },
+          }),
+        );
+        updated++;
+      }
+    } while (lastEvaluatedKey);
+
+    return updated;
+  }
+
+  async hideMessage(message: any, userId: string): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'hidden_messages',
+      Item: {
+        messageId: message.id,
+        userId,
+        conversationId: message.conversationId,
+        hiddenAt: new Date().toISOString(),
+      },
+    });
+    await this.client.send(command);
+    await this.recordUserChanges([userId], {
+      type: 'message',
+      conversationId: message.conversationId,
+      messageId: message.id,
+    });
+  }
+
+  async getHiddenMessageIds(
+    messageIds: string[],
+    userId: string,
+  ): Promise<Set<string>> {
+    const hidden = new Set<string>();
+
+    for (let i = 0; i < messageIds.length; i += 100) {
+      const command = new BatchGetCommand({
+        RequestItems: {
+          hidden_messages: {
+            Keys: messageIds
+              .slice(i, i + 100)
+              .map((messageId) => ({ messageId, userId })),
+            ProjectionExpression: 'messageId',
+          },
+        },
+      });
+      const result = await this.client.send(command);
+      for (const item of result.Responses?.hidden_messages || []) {
+        hidden.add(item.messageId);
+      }
+    }
+
+    return hidden;
+  }
+
+  async deleteHiddenMessage(messageId: string): Promise<void> {
+    const command = new QueryCommand({
+      TableName: 'hidden_messages',
+      KeyConditionExpression: 'messageId = :messageId',
+      ExpressionAttributeValues: {
+        ':messageId': messageId,
+      },
+    });
+    const result = await this.client.send(command);
+    await this.batchDelete(
+      'hidden_messages',
+      (result.Items || []).map((item) => ({
+        messageId: item.messageId,
+        userId: item.userId,
+      })),
+    );
+  }
+
+  private async putMessageRevision(revision: {
+    messageId: string;
+    revision: number;
+    conversationId: string;
+    content: string;
+    editedAt: string;
+    editedBy: string;
+  }): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'message_revisions',
+      Item: revision,
+    });
+    await this.client.send(command);
+  }
+
+  async recordThreadReply(root: any, repliedAt: string): Promise<any> {
+    const command = new UpdateCommand({
+      TableName: 'messages',
+      Key: { id: root.id, conversationId: root.conversationId },
+      UpdateExpression: 'SET lastReplyAt = :repliedAt ADD replyCount :one',
+      ExpressionAttributeValues: {
+        ':repliedAt': repliedAt,
+        ':one': 1,
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+    const result = await this.client.send(command);
+    return result.Attributes;
+  }
+
+  private async decrementThreadReplyCount(reply: any): Promise<void> {
+    try {
+      await this.client.send(
+        new UpdateCommand({
+          TableName: 'messages',
+          Key: { id: reply.threadRootId, conversationId: reply.conversationId },
+          UpdateExpression: 'ADD replyCount :minusOne',
+          ConditionExpression: 'attribute_exists(id) AND replyCount > :zero',
+          ExpressionAttributeValues: {
+            ':minusOne': -1,
+            ':zero': 0,
+          },
+        }),
+      );
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  async getThreadRepliesPage(
+    root: { id: string; conversationId: string },
+    options: {
+      limit: number;
+      direction: 'older' | 'newer';
+      startAfter?: { id: string; timestamp: string };
+    },
+  ): Promise<{ items: any[]; hasMore: boolean }> {
+    const command = new QueryCommand({
+      TableName: 'messages',
+      IndexName: 'threadRootId-timestamp-index',
+      KeyConditionExpression: 'threadRootId = :threadRootId',
+      ExpressionAttributeValues: {
+        ':threadRootId': root.id,
+      },
+      ScanIndexForward: options.direction === 'newer',
+      Limit: options.limit,
+      ExclusiveStartKey: options.startAfter
+        ? {
+            id: options.startAfter.id,
+            conversationId: root.conversationId,
+            threadRootId: root.id,
+            timestamp: options.startAfter.timestamp,
+          }
+        : undefined,
+    });
+    const result = await this.client.send(command);
+    return {
+      items: result.Items || [],
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Suscribe al usuario al hilo. Con `onlyIfNew` (suscripción automática) no
+   * se sobrescribe nada: ni una suscripción existente ni la marca de quien
+   * dejó de seguir el hilo.
+   */
+  async putThreadFollower(
+    threadRootId: string,
+    userId: string,
+    conversationId: string,
+    onlyIfNew = false,
+  ): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'thread_followers',
+      Item: {
+        threadRootId,
+        userId,
+        conversationId,
+        followedAt: new Date().toISOString(),
+      },
+      ...(onlyIfNew
+        ? { ConditionExpression: 'attribute_not_exists(userId)' }
+        : {}),
+    });
+    try {
+      await this.client.send(command);
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Deja una marca `unfollowedAt` en lugar de borrar el registro, para que
+   * las siguientes respuestas no vuelvan a suscribir al usuario.
+   */
+  async unfollowThread(
+    threadRootId: string,
+    userId: string,
+    conversationId: string,
+  ): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'thread_followers',
+      Item: {
+        threadRootId,
+        userId,
+        conversationId,
+        unfollowedAt: new Date().toISOString(),
+      },
+    });
+    await this.client.send(command);
+  }
+
+  /**
+   * Registros del hilo, incluidas las marcas de quienes dejaron de seguirlo.
+   */
+  private async getThreadFollowerRecords(threadRootId: string): Promise<any[]> {
+    const command = new QueryCommand({
+      TableName: 'thread_followers',
+      KeyConditionExpression: 'threadRootId = :threadRootId',
+      ExpressionAttributeValues: {
+        ':threadRootId': threadRootId,
+      },
+    });
+    const result = await this.client.send(command);
+    return result.Items || [];
+  }
+
+  async getThreadFollowers(threadRootId: string): Promise<any[]> {
+    return (await this.getThreadFollowerRecords(threadRootId)).filter(
+      (follower) => !follower.unfollowedAt,
+    );
+  }
+
+  async isThreadFollower(
+    threadRootId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const command = new GetCommand({
+      TableName: 'thread_followers',
+      Key: { threadRootId, userId },
+    });
+    const result = await this.client.send(command);
+    return !!result.Item && !result.Item.unfollowedAt;
+  }
+
+  async deleteThreadFollowers(threadRootId: string): Promise<void> {
+    const followers = await this.getThreadFollowerRecords(threadRootId);
+    await this.batchDelete(
+      'thread_followers',
+      followers.map((follower) => ({
+        threadRootId: follower.threadRootId,
+        userId: follower.userId,
+      })),
+    );
+  }
+
+  /**
+   * Asigna threadRootId a las respuestas antiguas (siguiendo la cadena de
+   * replyTo hasta la raíz) y recalcula replyCount y lastReplyAt de las raíces.
+   */
+  async backfillThreads(): Promise<number> {
+    const roots = new Map<
+      string,
+      { conversationId: string; replyCount: number; lastReplyAt: string }
+    >();
+    const rootIds = new Map<string, string>();
+    let lastEvaluatedKey: any = undefined;
+
+    const resolveRootId = async (message: any): Promise<string> => {
+      let current = message;
+      const visited = new Set<string>();
+      while (current?.replyTo && !visited.has(current.id)) {
+        visited.add(current.id);
+        if (current.threadRootId) {
+          return current.threadRootId;
+        }
+        const cached = rootIds.get(current.replyTo);
+        if (cached) {
+          return cached;
+        }
+        const parent = await this.findMessageById(current.replyTo);
+        if (!parent) {
+          return current.replyTo;
+        }
+        current = parent;
+      }
+      return current.id;
+    };
+
+    do {
+      const scanCommand = new ScanCommand({
+        TableName: 'messages',
+        FilterExpression: 'attribute_exists(replyTo)',
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(scanCommand);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const reply of result.Items || []) {
+        const threadRootId = await resolveRootId(reply);
+        rootIds.set(reply.id, threadRootId);
+
+        if (reply.threadRootId !== threadRootId) {
+          await this.client.send(
+            new UpdateCommand({
+              TableName: 'messages',
+              Key: { id: reply.id, conversationId: reply.conversationId },
+              UpdateExpression: 'SET threadRootId = :threadRootId',
+              ExpressionAttributeValues: {
+                ':threadRootId': threadRootId,
+              },
+            }),
+          );
+        }
+
+        const root = roots.get(threadRootId) || {
+          conversationId: reply.conversationId,
+          replyCount: 0,
+          lastReplyAt: '',
+        };
+        root.replyCount++;
+        if ((reply.timestamp || '') > root.lastReplyAt) {
+          root.lastReplyAt = reply.timestamp;
+        }
+        roots.set(threadRootId, root);
+      }
+    } while (lastEvaluatedKey);
+
+    for (const [rootId, root] of roots) {
+      try {
+        await this.client.send(
+          new UpdateCommand({
+            TableName: 'messages',
+            Key: { id: rootId, conversationId: root.conversationId },
+            UpdateExpression:
+              'SET replyCount = :replyCount, lastReplyAt = :lastReplyAt',
+            ConditionExpression: 'attribute_exists(id)',
+            ExpressionAttributeValues: {
+              ':replyCount': root.replyCount,
+              ':lastReplyAt': root.lastReplyAt,
+            },
+          }),
+        );
+      } catch (error) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+      }
+    }
+
+    return roots.size;
+  }
+
+  async backfillMessageFileUrls(): Promise<number> {
+    let updated = 0;
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const scanCommand = new ScanCommand({
+        TableName: 'messages',
+        FilterExpression:
+          'messageType = :messageType AND attribute_not_exists(fileUrl)',
+        ExpressionAttributeValues: {
+          ':messageType': 'file',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(scanCommand);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const message of result.Items || []) {
+        let fileUrl: string | undefined;
+        try {
+          fileUrl = JSON.parse(message.content).fileUrl;
+        } catch {
+          continue;
+        }
+        if (!fileUrl) {
+          continue;
+        }
+
+        await this.client.send(
+          new UpdateCommand({
+            TableName: 'messages',
+            Key: { id: message.id, conversationId: message.conversationId },
+            UpdateExpression: 'SET fileUrl = :fileUrl',
+            ExpressionAttributeValues: {
+              ':fileUrl': fileUrl,
+            },
+          }),
+        );
+        updated++;
+      }
+    } while (lastEvaluatedKey);
+
+    return updated;
+  }
+
+  /**
+   * Pasa los mensajes de archivo y audio antiguos, que guardaban los datos
+   * del archivo como JSON en `content`, al formato con `payload`: `content`
+   * queda con el nombre del archivo. Los que no se pueden interpretar se
+   * cuentan en `skipped` y se dejan como están.
+   */
+  async convertFileMessagePayloads(): Promise<{
+    converted: number;
+    skipped: number;
+  }> {
+    let converted = 0;
+    let skipped = 0;
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const result = await this.client.send(
+        new ScanCommand({
+          TableName: 'messages',
+          FilterExpression:
+            'messageType IN (:file, :audio) AND attribute_not_exists(payload) AND isDeleted <> :deleted',
+          ExpressionAttributeValues: {
+            ':file': 'file',
+            ':audio': 'audio',
+            ':deleted': true,
+          },
+          ExclusiveStartKey: lastEvaluatedKey,
+        }),
+      );
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const message of result.Items || []) {
+        let payload: Record<string, any> | null = null;
+        try {
+          const instance = plainToInstance(
+            message.messageType === 'audio' ? AudioPayloadDto : FilePayloadDto,
+            JSON.parse(message.content) as object,
+          );
+          if (validateSync(instance, { whitelist: true }).length === 0) {
+            payload = { ...instance };
+          }
+        } catch {
+          payload = null;
+        }
+        if (!payload) {
+          skipped++;
+          continue;
+        }
+
+        try {
+          await this.client.send(
+            new UpdateCommand({
+              TableName: 'messages',
+              Key: { id: message.id, conversationId: message.conversationId },
+              UpdateExpression:
+                'SET payload = :payload, content = :content, fileUrl = :fileUrl',
+              ConditionExpression: 'attribute_not_exists(payload)',
+              ExpressionAttributeValues: {
+                ':payload': payload,
+                ':content': payload.fileName,
+                ':fileUrl': payload.fileUrl,
+              },
+            }),
+          );
+        } catch (error) {
+          if (error.name === 'ConditionalCheckFailedException') {
+            continue;
+          }
+          throw error;
+        }
+        await this.indexMessageForSearch({
+          ...message,
+          payload,
+          content: payload.fileName,
+        });
+        converted++;
+      }
+    } while (lastEvaluatedKey);
+
+    return { converted, skipped };
+  }
+
+  /**
+   * Sustituye las entradas del mensaje en `message_search_index`. Un fallo
+   * del índice no interrumpe el envío ni la edición: se registra y se
+   * corrige con la migración 004-messages-search-index.
+   */
+  async indexMessageForSearch(
+    message: any,
+    replaceExisting = true,
+  ): Promise<void> {
+    if (replaceExisting) {
+      await this.removeMessageFromSearch(message.id);
+    }
+    try {
+      await this.putSearchEntries(message);
+    } catch (error) {
+      console.error('[DynamoDB] Error indexando mensaje para búsqueda:', error);
+    }
+  }
+
+  /**
+   * Entradas del índice de una conversación cuyo término empieza por
+   * `prefix`, como mucho `maxEntries`.
+   */
+  async getSearchEntries(
+    conversationId: string,
+    prefix: string,
+    maxEntries: number,
+  ): Promise<any[]> {
+    const entries: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'message_search_index',
+        KeyConditionExpression:
+          'conversationId = :conversationId AND begins_with(termKey, :prefix)',
+        ExpressionAttributeValues: {
+          ':conversationId': conversationId,
+          ':prefix': prefix,
+        },
+        Limit: maxEntries - entries.length,
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      entries.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey && entries.length < maxEntries);
+
+    return entries;
+  }
+
+  /**
+   * Reindexa todos los mensajes y elimina las entradas de mensajes que ya no
+   * existen (por ejemplo, tras un borrado masivo).
+   */
+  async rebuildSearchIndex(): Promise<{ indexed: number; removed: number }> {
+    let indexed = 0;
+    let removed = 0;
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const scanCommand = new ScanCommand({
+        TableName: 'messages',
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(scanCommand);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      for (const message of result.Items || []) {
+        await this.removeMessageFromSearch(message.id);
+        if ((await this.putSearchEntries(message)) > 0) {
+          indexed++;
+        }
+      }
+    } while (lastEvaluatedKey);
+
+    const existing = new Map<string, boolean>();
+    do {
+      const scanCommand = new ScanCommand({
+        TableName: 'message_search_index',
+        ProjectionExpression: 'conversationId, termKey, messageId',
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(scanCommand);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+
+      const orphans: Record<string, any>[] = [];
+      for (const entry of result.Items || []) {
+        if (!existing.has(entry.messageId)) {
+          existing.set(
+            entry.messageId,
+            !!(await this.findMessageById(entry.messageId)),
+          );
+        }
+        if (!existing.get(entry.messageId)) {
+          orphans.push({
+            conversationId: entry.conversationId,
+            termKey: entry.termKey,
+          });
+        }
+      }
+      await this.batchDelete('message_search_index', orphans);
+      removed += orphans.length;
+    } while (lastEvaluatedKey);
+
+    return { indexed, removed };
+  }
+
+  /**
+   * Una entrada por término distinto, con clave `${term}#${messageId}` en la
+   * partición de la conversación para buscar por prefijo con begins_with.
+   */
+  private async putSearchEntries(message: any): Promise<number> {
+    const terms = tokenize(getSearchableText(message));
+
+    for (let i = 0; i < terms.length; i += 25) {
+      const batchWriteCommand = new BatchWriteCommand({
+        RequestItems: {
+          message_search_index: terms.slice(i, i + 25).map((term) => ({
+            PutRequest: {
+              Item: {
+                conversationId: message.conversationId,
+                termKey: `${term}#${message.id}`,
+                messageId: message.id,
+                senderId: message.senderId,
+                timestamp: message.timestamp,
+              },
+            },
+          })),
+        },
+      });
+      await this.client.send(batchWriteCommand);
+    }
+
+    return terms.length;
+  }
+
+  private async removeMessageFromSearch(messageId: string): Promise<void> {
+    try {
+      const keys: Record<string, any>[] = [];
+      let lastEvaluatedKey: any = undefined;
+
+      do {
+        const command = new QueryCommand({
+          TableName: 'message_search_index',
+          IndexName: 'messageId-index',
+          KeyConditionExpression: 'messageId = :messageId',
+          ExpressionAttributeValues: {
+            ':messageId': messageId,
+          },
+          ExclusiveStartKey: lastEvaluatedKey,
+        });
+        const result = await this.client.send(command);
+        for (const item of result.Items || []) {
+          keys.push({
+            conversationId: item.conversationId,
+            termKey: item.termKey,
+          });
+        }
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      await this.batchDelete('message_search_index', keys);
+    } catch (error) {
+      console.error('[DynamoDB] Error eliminando mensaje del índice:', error);
+    }
+  }
+
+  async putReaction(reaction: {
+    messageId: string;
+    conversationId: string;
+    userId: string;
+    emoji: string;
+  }): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'message_reactions',
+      Item: {
+        ...reaction,
+        reactionKey: `${reaction.userId}#${reaction.emoji}`,
+        createdAt: new Date().toISOString(),
+      },
+    });
+    await this.client.send(command);
+  }
+
+  async deleteReaction(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<void> {
+    const command = new DeleteCommand({
+      TableName: 'message_reactions',
+      Key: { messageId, reactionKey: `${userId}#${emoji}` },
+    });
+    await this.client.send(command);
+  }
+
+  async getMessageReactions(messageId: string): Promise<any[]> {
+    const reactions: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'message_reactions',
+        KeyConditionExpression: 'messageId = :messageId',
+        ExpressionAttributeValues: {
+          ':messageId': messageId,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      reactions.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return reactions;
+  }
+
+  async deleteMessageReactions(messageId: string): Promise<void> {
+    const reactions = await this.getMessageReactions(messageId);
+    await this.batchDelete(
+      'message_reactions',
+      reactions.map((reaction) => ({
+        messageId: reaction.messageId,
+        reactionKey: reaction.reactionKey,
+      })),
+    );
+  }
+
+  /**
+   * Un único voto por participante: votar de nuevo sustituye las opciones
+   * elegidas.
+   */
+  async putPollVote(vote: {
+    messageId: string;
+    conversationId: string;
+    userId: string;
+    optionIds: string[];
+  }): Promise<void> {
+    const command = new PutCommand({
+      TableName: 'poll_votes',
+      Item: {
+        ...vote,
+        votedAt: new Date().toISOString(),
+      },
+    });
+    await this.client.send(command);
+  }
+
+  async deletePollVote(messageId: string, userId: string): Promise<void> {
+    const command = new DeleteCommand({
+      TableName: 'poll_votes',
+      Key: { messageId, userId },
+    });
+    await this.client.send(command);
+  }
+
+  async getPollVotes(messageId: string): Promise<any[]> {
+    const votes: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'poll_votes',
+        KeyConditionExpression: 'messageId = :messageId',
+        ExpressionAttributeValues: {
+          ':messageId': messageId,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      votes.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return votes;
+  }
+
+  async deletePollVotes(messageId: string): Promise<void> {
+    const votes = await this.getPollVotes(messageId);
+    await this.batchDelete(
+      'poll_votes',
+      votes.map((vote) => ({ messageId, userId: vote.userId })),
+    );
+  }
+
+  /**
+   * Cierra la encuesta; devuelve null si ya estaba cerrada.
+   */
+  async closePoll(message: any, closedBy: string): Promise<any> {
+    const command = new UpdateCommand({
+      TableName: 'messages',
+      Key: { id: message.id, conversationId: message.conversationId },
+      UpdateExpression:
+        'SET poll.closedAt = :closedAt, poll.closedBy = :closedBy',
+      ConditionExpression:
+        'attribute_exists(poll) AND attribute_not_exists(poll.closedAt)',
+      ExpressionAttributeValues: {
+        ':closedAt': new Date().toISOString(),
+        ':closedBy': closedBy,
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+
+    try {
+      const result = await this.client.send(command);
+      await this.recordConversationChange(message.conversationId, {
+        type: 'message',
+        messageId: message.id,
+      });
+      return result.Attributes;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async upsertReceipt(
+    message: { id: string; conversationId: string; senderId: string },
+    userId: string,
+    status: 'delivered' | 'read',
+  ): Promise<any> {
+    const now = new Date().toISOString();
+    const command = new UpdateCommand({
+      TableName: 'message_receipts',
+      Key: { messageId: message.id, userId },
+      UpdateExpression:
+        status === 'read'
+          ? 'SET conversationId = :conversationId, senderId = :senderId, deliveredAt = if_not_exists(deliveredAt, :now), readAt = if_not_exists(readAt, :now)'
+          : 'SET conversationId = :conversationId, senderId = :senderId, deliveredAt = if_not_exists(deliveredAt, :now)',
+      ExpressionAttributeValues: {
+        ':conversationId': message.conversationId,
+        ':senderId': message.senderId,
+        ':now': now,
+      },
+      ReturnValues: 'ALL_NEW',
+    });
+    const result = await this.client.send(command);
+    return result.Attributes;
+  }
+
+  /**
+   * Recibos de cada par mensaje/usuario que exista, en lotes de 100 claves.
+   */
+  async getReceiptsFor(
+    messageIds: string[],
+    userIds: string[],
+  ): Promise<any[]> {
+    const keys = messageIds.flatMap((messageId) =>
+      userIds.map((userId) => ({ messageId, userId })),
+    );
+    const receipts: any[] = [];
+
+    for (let i = 0; i < keys.length; i += 100) {
+      const command = new BatchGetCommand({
+        RequestItems: {
+          message_receipts: { Keys: keys.slice(i, i + 100) },
+        },
+      });
+      const result = await this.client.send(command);
+      receipts.push(...(result.Responses?.message_receipts || []));
+    }
+
+    return receipts;
+  }
+
+  /** Guarda recibos completos en lotes de 25; sustituye los existentes. */
+  async putReceipts(receipts: any[]): Promise<void> {
+    for (let i = 0; i < receipts.length; i += 25) {
+      const batchWriteCommand = new BatchWriteCommand({
+        RequestItems: {
+          message_receipts: receipts
+            .slice(i, i + 25)
+            .map((receipt) => ({ PutRequest: { Item: receipt } })),
+        },
+      });
+      await this.client.send(batchWriteCommand);
+    }
+  }
+
+  async getMessageReceipts(messageId: string): Promise<any[]> {
+    const command = new QueryCommand({
+      TableName: 'message_receipts',
+      KeyConditionExpression: 'messageId = :messageId',
+      ExpressionAttributeValues: {
+        ':messageId': messageId,
+      },
+    });
+    const result = await this.client.send(command);
+    return result.Items || [];
+  }
+
+  async deleteMessageReceipts(messageId: string): Promise<void> {
+    const receipts = await this.getMessageReceipts(messageId);
+    await this.batchDelete(
+      'message_receipts',
+      receipts.map((receipt) => ({
+        messageId: receipt.messageId,
+        userId: receipt.userId,
+      })),
+    );
+  }
+
+  async putBookmark(bookmark: {
+    userId: string;
+    messageId: string;
+    conversationId: string;
+  }): Promise<any> {
+    const item = { ...bookmark, bookmarkedAt: new Date().toISOString() };
+    const command = new PutCommand({
+      TableName: 'bookmarks',
+      Item: item,
+      ConditionExpression: 'attribute_not_exists(messageId)',
+    });
+
+    try {
+      await this.client.send(command);
+      return item;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return this.getBookmark(bookmark.userId, bookmark.messageId);
+      }
+      throw error;
+    }
+  }
+
+  async getBookmark(userId: string, messageId: string): Promise<any> {
+    const command = new GetCommand({
+      TableName: 'bookmarks',
+      Key: { userId, messageId },
+    });
+    const result = await this.client.send(command);
+    return result.Item || null;
+  }
+
+  async deleteBookmark(userId: string, messageId: string): Promise<void> {
+    const command = new DeleteCommand({
+      TableName: 'bookmarks',
+      Key: { userId, messageId },
+    });
+    await this.client.send(command);
+  }
+
+  async getUserBookmarksPage(
+    userId: string,
+    options: { limit: number; startAfter?: { id: string; timestamp: string } },
+  ): Promise<{ items: any[]; hasMore: boolean }> {
+    const command = new QueryCommand({
+      TableName: 'bookmarks',
+      IndexName: 'userId-bookmarkedAt-index',
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+      ScanIndexForward: false,
+      Limit: options.limit,
+      ExclusiveStartKey: options.startAfter
+        ? {
+            userId,
+            messageId: options.startAfter.id,
+            bookmarkedAt: options.startAfter.timestamp,
+          }
+        : undefined,
+    });
+    const result = await this.client.send(command);
+    return {
+      items: result.Items || [],
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  async deleteMessageBookmarks(messageId: string): Promise<void> {
+    const command = new QueryCommand({
+      TableName: 'bookmarks',
+      IndexName: 'messageId-index',
+      KeyConditionExpression: 'messageId = :messageId',
+      ExpressionAttributeValues: {
+        ':messageId': messageId,
+      },
+    });
+    const result = await this.client.send(command);
+    await this.batchDelete(
+      'bookmarks',
+      (result.Items || []).map((item) => ({
+        userId: item.userId,
+        messageId: item.messageId,
+      })),
+    );
+  }
+
+  async deleteUserConversationBookmarks(
+    userId: string,
+    conversationId: string,
+  ): Promise<void> {
+    const keys: { userId: string; messageId: string }[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'bookmarks',
+        KeyConditionExpression: 'userId = :userId',
+        FilterExpression: 'conversationId = :conversationId',
+        ExpressionAttributeValues: {
+          ':userId': userId,
+          ':conversationId': conversationId,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      for (const item of result.Items || []) {
+        keys.push({ userId: item.userId, messageId: item.messageId });
+      }
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    await this.batchDelete('bookmarks', keys);
+  }
+
+  async createScheduledMessage(scheduledMessage: any): Promise<any> {
+    const now = new Date().toISOString();
+    const item = {
+      ...scheduledMessage,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const command = new PutCommand({
+      TableName: 'scheduled_messages',
+      Item: item,
+    });
+    await this.client.send(command);
+    return item;
+  }
+
+  async getScheduledMessage(id: string): Promise<any> {
+    const command = new GetCommand({
+      TableName: 'scheduled_messages',
+      Key: { id },
+    });
+    const result = await this.client.send(command);
+    return result.Item || null;
+  }
+
+  async getConversationScheduledMessages(
+    conversationId: string,
+    senderId: string,
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let lastEvaluatedKey: any = undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: 'scheduled_messages',
+        IndexName: 'conversationId-sendAt-index',
+        KeyConditionExpression: 'conversationId = :conversationId',
+        FilterExpression: 'senderId = :senderId AND #status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':conversationId': conversationId,
+          ':senderId': senderId,
+          ':status': 'pending',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      });
+      const result = await this.client.send(command);
+      items.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return items;
+  }
+
+  async getScheduledMessagesByStatus(
+    status: string,
+    sendAtBefore: string,
+    limit: number,
+  ): Promise<any[]> {
+    const command = new QueryCommand({
+      TableName: 'scheduled_messages',
+      IndexName: 'status-sendAt-index',
+      KeyConditionExpression: '#status = :status AND sendAt <= :sendAtBefore',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+      },
+      ExpressionAttributeValues: {
+        ':status': status,
+        ':sendAtBefore': sendAtBefore,
+      },
+      Limit: limit,
+    });
+    const result = await this.client.send(command);
+    return result.Items || [];
+  }
+
+  /**
+   * Cambia los campos de una programación solo si sigue en `expectedStatus`;
+   * devuelve null si otro proceso la cambió antes.
+   */
+  async updateScheduledMessage(
+    id: string,
+    expectedStatus: string,
+    changes: Record<string, any>,
+  ): Promise<any> {
+    const fields = { ...changes, updatedAt: new Date().toISOString() };
+    const names: Record<string, string> = { '#status': 'status' };
+    const values: Record<string, any> = { ':expectedStatus': expectedStatus };
+    const assignments = Object.entries(fields).map(([key, value], index) => {
+      names[`#f${index}`] = key;
+      values[`:v${index}`] = value;
+      return `#f${index} = :v${index}`;
+    });
+
+    const command = new UpdateCommand({
+      TableName: 'scheduled_messages',
+      Key: { id },
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ConditionExpression: '#status = :expectedStatus',
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+      ReturnValues: 'ALL_NEW',
+    });
+
+    try {
+      const result = await this.client.send(command);
+      return result.Attributes;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registro de cambios por usuario para la sincronización tras reconectar.
+   * `changeId` empieza por la fecha, así que el orden de la clave es el
+   * cronológico. Un fallo aquí no debe deshacer la operación principal.
+   */
+  async recordUserChanges(
+    userIds: string[],
+    change: {
+      type: UserChangeType;
+      conversationId: string;
+      messageId?: string;
+      userId?: string;
+    },
+  ): Promise<void> {
+    const changedAt = new Date();
+    const retentionDays: number =
+      this.configService.get('app.sync.changeRetentionDays') || 7;
+    const expiresAt =
+      Math.floor(changedAt.getTime() / 1000) + retentionDays * 24 * 60 * 60;
+    const changeId = `${changedAt.toISOString()}#${uuidv4()}`;
+    const { userId: targetUserId, ...changeData } = change;
+
+    try {
+      for (let i = 0; i < userIds.length; i += 25) {
+        const batchWriteCommand = new BatchWriteCommand({
+          RequestItems: {
+            user_changes: userIds.slice(i, i + 25).map((userId) => ({
+              PutRequest: {
+                Item: {
+                  userId,
+                  changeId,
+                  ...changeData,
+                  ...(targetUserId ? { targetUserId } : {}),
+                  changedAt: changedAt.toISOString(),
+                  expiresAt,
+                },
+              },
+            })),
+          },
+        });
+        await this.client.send(batchWriteCommand);
+      }
+    } catch (error) {
+      console.error('[DynamoDB] Error registrando cambios de usuario:', error);
+    }
+  }
+
+  private async recordConversationChange(
+    conversationId: string,
+    change: { type: UserChangeType; messageId?: string; userId?: string },
+  ): Promise<void> {
+    const participants = await this.getConversationParticipants(conversationId);
+    await this.recordUserChanges(
+      participants.map((p) => p.userId as string),
+      { ...change, conversationId },
+    );
+  }
+
+  /**
+   * Cambios del usuario posteriores a `afterChangeId` y anteriores a
+   * `beforeChangeId`, en orden cronológico.
+   */
+  async getUserChangesPage(
+    userId: string,
+    options: { afterChangeId: string; beforeChangeId: string; limit: number },
+  ): Promise<{ items: any[]; hasMore: boolean }> {
+    const command = new QueryCommand({
+      TableName: 'user_changes',
+      KeyConditionExpression: 'userId = :userId AND changeId < :before',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+        ':before': options.beforeChangeId,
+      },
+      ExclusiveStartKey: { userId, changeId: options.afterChangeId },
+      Limit: options.limit,
+    });
+    const result = await this.client.send(command);
+    return {
+      items: result.Items || [],
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  private async batchDelete(
+    tableName: string,
+    keys: Record<string, any>[],
+  ): Promise<void> {
+    for (let i = 0; i < keys.length; i += 25) {
+      let requestItems: BatchWriteCommandInput['RequestItems'] = {
+        [tableName]: keys
+          .slice(i, i + 25)
+          .map((key) => ({ DeleteRequest: { Key: key } })),
+      };
+
+      // DynamoDB puede dejar parte del lote sin procesar (por ejemplo, al
+      // limitar la capacidad): se reintenta con espera creciente hasta vaciarlo
+      for (let attempt = 0; requestItems; attempt++) {
+        if (attempt > 0) {
+          const delay = Math.min(
+            BATCH_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+            BATCH_RETRY_MAX_DELAY_MS,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        const result: BatchWriteCommandOutput = await this.client.send(
+          new BatchWriteCommand({ RequestItems: requestItems }),
+        );
+        requestItems =
+          result.UnprocessedItems &&
+          Object.keys(result.UnprocessedItems).length > 0
+            ? result.UnprocessedItems
+            : undefined;
+      }
+    }
+  }
+
   async deleteAllMessages(): Promise<number> {
     let totalDeleted = 0;
     let lastEvaluatedKey: any = undefined;
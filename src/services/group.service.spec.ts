@@ -0,0 +1,50 @@
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { GroupService } from './group.service';
+
+describe('GroupService', () => {
+  let participants: Record<string, { userId: string; role: string }>;
+  let dynamoDBService: Record<string, jest.Mock>;
+  let service: GroupService;
+
+  beforeEach(() => {
+    participants = {
+      owner: { userId: 'owner', role: 'owner' },
+      admin: { userId: 'admin', role: 'admin' },
+      member: { userId: 'member', role: 'member' },
+    };
+    dynamoDBService = {
+      getConversationParticipants: jest.fn(() =>
+        Promise.resolve(Object.values(participants)),
+      ),
+      updateParticipantRole: jest.fn(
+        (conversationId: string, userId: string, role: string) => {
+          participants[userId].role = role;
+          return Promise.resolve();
+        },
+      ),
+    };
+    // La comprobación de rangos se prueba en ConversationAccessService
+    const conversationAccessService = {
+      assertGroupPermission: jest.fn().mockResolvedValue('owner'),
+      getParticipantRole: jest.fn((conversationId: string, userId: string) =>
+        Promise.resolve(participants[userId]?.role ?? null),
+      ),
+    };
+
+    service = new GroupService(
+      dynamoDBService as unknown as DynamoDBService,
+      conversationAccessService as unknown as ConversationAccessService,
+    );
+  });
+
+  it('does not let the owner change their own role', async () => {
+    await expect(
+      service.updateParticipantRole('group-1', 'owner', 'owner', 'member'),
+    ).rejects.toThrow('No puedes cambiar tu propio rol');
+    expect(participants.owner.role).toBe('owner');
+
+    await service.updateParticipantRole('group-1', 'owner', 'member', 'admin');
+    expect(participants.member.role).toBe('admin');
+  });
+});
@@ -0,0 +1,141 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+import {
+  ConversationAccessError,
+  ConversationAccessService,
+  ParticipantRole,
+} from './conversation-access.service';
+
+@Injectable()
+export class GroupService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  /**
+   * Nadie cambia su propio rol: el propietario solo deja de serlo al salir
+   * del grupo, que traspasa la propiedad.
+   */
+  async updateParticipantRole(
+    conversationId: string,
+    actorId: string,
+    targetUserId: string,
+    role: Exclude<ParticipantRole, 'owner'>,
+  ) {
+    await this.conversationAccessService.assertGroupPermission(
+      conversationId,
+      actorId,
+      'manage_roles',
+      targetUserId,
+    );
+    if (targetUserId === actorId) {
+      throw new BadRequestException('No puedes cambiar tu propio rol');
+    }
+
+    const previousRole =
+      await this.conversationAccessService.getParticipantRole(
+        conversationId,
+        targetUserId,
+      );
+    if (!previousRole) {
+      throw new ConversationAccessError(
+        'NOT_A_PARTICIPANT',
+        'El usuario no es participante de este grupo',
+      );
+    }
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+    if (previousRole !== role) {
+      await this.dynamoDBService.updateParticipantRole(
+        conversationId,
+        targetUserId,
+        role,
+      );
+    }
+
+    return {
+      eventData: {
+        conversationId,
+        userId: targetUserId,
+        role,
+        previousRole,
+        updatedBy: actorId,
+        timestamp: new Date().toISOString(),
+      },
+      participantIds: participants.map((p) => p.userId as string),
+    };
+  }
+
+  async renameGroup(
+    conversationId: string,
+    actorId: string,
+    details: { name?: string; description?: string },
+  ) {
+    await this.conversationAccessService.assertGroupPermission(
+      conversationId,
+      actorId,
+      'rename',
+    );
+
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    const updatedConversation =
+      await this.dynamoDBService.updateConversationDetails(conversationId, {
+        name: details.name?.trim() || conversation.name,
+        description:
+          details.description !== undefined
+            ? details.description
+            : conversation.description,
+      });
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+
+    return {
+      eventData: {
+        conversationId,
+        name: updatedConversation.name,
+        description: updatedConversation.description,
+        updatedBy: actorId,
+        updatedAt: updatedConversation.updatedAt,
+      },
+      participantIds: participants.map((p) => p.userId as string),
+    };
+  }
+
+  /**
+   * Elige al siguiente propietario cuando el actual sale del grupo:
+   * primero los administradores y, si no hay, el participante más antiguo.
+   */
+  async transferOwnership(
+    conversationId: string,
+    leavingUserId: string,
+    participants: any[],
+  ): Promise<string | null> {
+    const candidates = participants
+      .filter((p) => p.userId !== leavingUserId)
+      .sort((a, b) =>
+        (a.joinedAt || a.createdAt || '').localeCompare(
+          b.joinedAt || b.createdAt || '',
+        ),
+      );
+    const nextOwner =
+      candidates.find((p) => p.role === 'admin') || candidates[0];
+    if (!nextOwner?.userId) {
+      return null;
+    }
+
+    await this.dynamoDBService.updateConversationCreatedBy(
+      conversationId,
+      nextOwner.userId,
+    );
+    await this.dynamoDBService.updateParticipantRole(
+      conversationId,
+      nextOwner.userId,
+      'owner',
+    );
+    return nextOwner.userId as string;
+  }
+}
@@ -0,0 +1,65 @@
+import { DynamoDBService } from './dynamodb.service';
+import { MentionsService, parseMentions } from './mentions.service';
+import { RedisService } from './redis.service';
+
+describe('parseMentions', () => {
+  it('extracts user ids and the @all/@here keywords', () => {
+    expect(parseMentions('@all hola @u-1, @here y @u-1 otra vez')).toEqual({
+      userIds: ['u-1'],
+      all: true,
+      here: true,
+    });
+  });
+
+  it('ignores email addresses', () => {
+    expect(parseMentions('escribe a ana@example.com').userIds).toEqual([]);
+  });
+});
+
+describe('MentionsService', () => {
+  let conversationType: string;
+  let service: MentionsService;
+
+  beforeEach(() => {
+    conversationType = 'group';
+    const dynamoDBService = {
+      getConversation: jest.fn(() =>
+        Promise.resolve({ id: 'c1', type: conversationType }),
+      ),
+      getConversationParticipants: jest
+        .fn()
+        .mockResolvedValue([
+          { userId: 'alice' },
+          { userId: 'bob' },
+          { userId: 'carol' },
+        ]),
+    };
+    const redisService = {
+      getOnlineUsers: jest.fn().mockResolvedValue(['alice', 'carol']),
+    };
+
+    service = new MentionsService(
+      dynamoDBService as unknown as DynamoDBService,
+      redisService as unknown as RedisService,
+    );
+  });
+
+  it('only resolves mentions of group participants other than the sender', async () => {
+    await expect(
+      service.resolveMentions('c1', 'alice', '@alice @bob @stranger'),
+    ).resolves.toEqual(['bob']);
+  });
+
+  it('resolves @here to online participants', async () => {
+    await expect(
+      service.resolveMentions('c1', 'alice', 'hola @here'),
+    ).resolves.toEqual(['carol']);
+  });
+
+  it('ignores mentions in private conversations', async () => {
+    conversationType = 'private';
+    await expect(
+      service.resolveMentions('c1', 'alice', '@bob'),
+    ).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+
+export interface ParsedMentions {
+  userIds: string[];
+  all: boolean;
+  here: boolean;
+}
+
+// `@` al inicio o tras un carácter que no forme parte de una palabra o email
+const MENTION_PATTERN = /(^|[^\w@.])@([\w-]+)/g;
+
+export function parseMentions(content: string): ParsedMentions {
+  const parsed: ParsedMentions = { userIds: [], all: false, here: false };
+  if (typeof content !== 'string') {
+    return parsed;
+  }
+
+  for (const [, , token] of content.matchAll(MENTION_PATTERN)) {
+    if (token === 'all') {
+      parsed.all = true;
+    } else if (token === 'here') {
+      parsed.here = true;
+    } else if (!parsed.userIds.includes(token)) {
+      parsed.userIds.push(token);
+    }
+  }
+
+  return parsed;
+}
+
+@Injectable()
+export class MentionsService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Resuelve las menciones de un mensaje de grupo a ids de participantes:
+   * `@all` incluye a todos, `@here` a los conectados y `@userId` solo si
+   * participa en el grupo. El remitente nunca se menciona a sí mismo.
+   */
+  async resolveMentions(
+    conversationId: string,
+    senderId: string,
+    content: string,
+  ): Promise<string[]> {
+    const parsed = parseMentions(content);
+    if (!parsed.all && !parsed.here && parsed.userIds.length === 0) {
+      return [];
+    }
+
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (conversation?.type !== 'group') {
+      return [];
+    }
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+    const participantIds = participants
+      .map((p) => p.userId as string)
+      .filter((userId) => userId !== senderId);
+
+    if (parsed.all) {
+      return participantIds;
+    }
+
+    const onlineUsers = parsed.here
+      ? await this.redisService.getOnlineUsers()
+      : [];
+
+    return participantIds.filter(
+      (userId) =>
+        parsed.userIds.includes(userId) || onlineUsers.includes(userId),
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatGateway } from '../gateways/chat.gateway';
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { MessageExpirationService } from './message-expiration.service';
+import { PinsService } from './pins.service';
+import { RedisService } from './redis.service';
+
+describe('MessageExpirationService', () => {
+  let dynamoDBService: Record<string, jest.Mock>;
+  let redisService: Record<string, jest.Mock>;
+  let expiryAttempts: Record<string, number>;
+  let emit: jest.Mock;
+  let chatGateway: {
+    server: { to: jest.Mock };
+    deleteMessageFile: jest.Mock;
+    emitPinsUpdated: jest.Mock;
+  };
+  let service: MessageExpirationService;
+
+  beforeEach(() => {
+    expiryAttempts = {};
+    dynamoDBService = {
+      getConversation: jest
+        .fn()
+        .mockResolvedValue({ id: 'c1', type: 'private' }),
+      updateConversationMessageTtl: jest.fn(
+        (conversationId: string, messageTtl: number | null) =>
+          Promise.resolve({ id: conversationId, messageTtl, updatedAt: 'now' }),
+      ),
+      getConversationParticipants: jest
+        .fn()
+        .mockResolvedValue([{ userId: 'alice' }, { userId: 'bob' }]),
+      getExpiredMessages: jest.fn().mockResolvedValue({
+        messages: [
+          {
+            id: 'm1',
+            conversationId: 'c1',
+            messageType: 'file',
+            fileUrl: '/api/files/a.png',
+            expiryDay: '2025-01-01',
+          },
+        ],
+        pendingDay: '2025-01-03',
+      }),
+      deleteMessage: jest.fn().mockResolvedValue(undefined),
+      recordMessageExpiryFailure: jest.fn(
+        (messageId: string, maxAttempts: number) => {
+          expiryAttempts[messageId] = (expiryAttempts[messageId] || 0) + 1;
+          return Promise.resolve(expiryAttempts[messageId] < maxAttempts);
+        },
+      ),
+    };
+    emit = jest.fn();
+    chatGateway = {
+      server: { to: jest.fn(() => ({ emit })) },
+      deleteMessageFile: jest.fn().mockResolvedValue(undefined),
+      emitPinsUpdated: jest.fn(),
+    };
+
+    redisService = {
+      acquireLock: jest.fn().mockResolvedValue(true),
+      releaseLock: jest.fn().mockResolvedValue(undefined),
+      getExpirySweepDay: jest.fn().mockResolvedValue('2025-01-01'),
+      setExpirySweepDay: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new MessageExpirationService(
+      dynamoDBService as unknown as DynamoDBService,
+      redisService as unknown as RedisService,
+      { get: () => undefined } as unknown as ConfigService,
+      {
+        assertParticipant: jest.fn().mockResolvedValue(undefined),
+        assertGroupPermission: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ConversationAccessService,
+      {
+        removePin: jest.fn().mockResolvedValue({ pins: [], changed: false }),
+      } as unknown as PinsService,
+      chatGateway as unknown as ChatGateway,
+    );
+  });
+
+  it('stores the TTL and disables it with null', async () => {
+    await expect(service.setMessageTtl('c1', 'alice', 86400)).resolves.toEqual(
+      expect.objectContaining({
+        eventData: expect.objectContaining({ messageTtl: 86400 }),
+        participantIds: ['alice', 'bob'],
+      }),
+    );
+    await service.setMessageTtl('c1', 'alice', null);
+
+    expect(
+      dynamoDBService.updateConversationMessageTtl,
+    ).toHaveBeenLastCalledWith('c1', null);
+    await expect(service.setMessageTtl('c1', 'alice', -5)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('deletes expired messages with their files and notifies the room', async () => {
+    await service.sweepExpiredMessages();
+
+    expect(chatGateway.deleteMessageFile).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'm1' }),
+    );
+    expect(dynamoDBService.deleteMessage).toHaveBeenCalledWith('m1');
+    expect(chatGateway.server.to).toHaveBeenCalledWith('conversation:c1');
+    expect(emit).toHaveBeenCalledWith(
+      'message_deleted',
+      expect.objectContaining({ messageId: 'm1', reason: 'expired' }),
+    );
+  });
+
+  it('resumes from the first expiry day that was not emptied', async () => {
+    await service.sweepExpiredMessages();
+
+    expect(dynamoDBService.getExpiredMessages).toHaveBeenCalledWith(
+      expect.any(Number),
+      100,
+      '2025-01-01',
+    );
+    expect(redisService.setExpirySweepDay).toHaveBeenLastCalledWith(
+      '2025-01-03',
+    );
+
+    // Un mensaje que no se pudo borrar se vuelve a buscar en su día
+    dynamoDBService.deleteMessage.mockRejectedValueOnce(new Error('boom'));
+    await service.sweepExpiredMessages();
+    expect(redisService.setExpirySweepDay).toHaveBeenLastCalledWith(
+      '2025-01-01',
+    );
+  });
+
+  it('stops holding the sweep back for a message that keeps failing', async () => {
+    dynamoDBService.deleteMessage.mockRejectedValue(new Error('boom'));
+
+    for (let i = 0; i < 4; i++) {
+      await service.sweepExpiredMessages();
+      expect(redisService.setExpirySweepDay).toHaveBeenLastCalledWith(
+        '2025-01-01',
+      );
+    }
+    await service.sweepExpiredMessages();
+
+    expect(dynamoDBService.recordMessageExpiryFailure).toHaveBeenCalledTimes(5);
+    expect(redisService.setExpirySweepDay).toHaveBeenLastCalledWith(
+      '2025-01-03',
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+import { ConversationAccessService } from './conversation-access.service';
+import { PinsService } from './pins.service';
+import { ChatGateway } from '../gateways/chat.gateway';
+
+const SWEEPER_LOCK = 'message_expiration';
+// Barridos que se reintenta un mensaje caducado que no se puede borrar antes
+// de dejárselo al TTL
+const MAX_EXPIRE_ATTEMPTS = 5;
+
+@Injectable()
+export class MessageExpirationService implements OnModuleInit, OnModuleDestroy {
+  private readonly sweepInterval: number;
+  private readonly batchSize: number;
+  private readonly maxTtlDays: number;
+  private readonly instanceId = uuidv4();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly pinsService: PinsService,
+    private readonly chatGateway: ChatGateway,
+  ) {
+    this.sweepInterval =
+      this.configService.get('app.messageExpiration.sweepInterval') || 60000;
+    this.batchSize =
+      this.configService.get('app.messageExpiration.batchSize') || 100;
+    this.maxTtlDays =
+      this.configService.get('app.messageExpiration.maxTtlDays') || 365;
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      void this.sweepExpiredMessages();
+    }, this.sweepInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Activa (segundos) o desactiva (`null`) los mensajes temporales. Solo
+   * afecta a los mensajes enviados a partir del cambio. En grupos lo pueden
+   * cambiar owner y admin; en chats privados, cualquier participante.
+   */
+  async setMessageTtl(
+    conversationId: string,
+    actorId: string,
+    messageTtl: number | null,
+  ) {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (conversation?.type === 'group') {
+      await this.conversationAccessService.assertGroupPermission(
+        conversationId,
+        actorId,
+        'set_message_ttl',
+      );
+    } else {
+      await this.conversationAccessService.assertParticipant(
+        conversationId,
+        actorId,
+      );
+    }
+
+    const ttl = this.parseMessageTtl(messageTtl);
+    const updatedConversation =
+      await this.dynamoDBService.updateConversationMessageTtl(
+        conversationId,
+        ttl,
+      );
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+
+    return {
+      eventData: {
+        conversationId,
+        messageTtl: ttl,
+        updatedBy: actorId,
+        updatedAt: updatedConversation.updatedAt,
+      },
+      participantIds: participants.map((p) => p.userId as string),
+    };
+  }
+
+  /**
+   * Borra los mensajes caducados junto con su archivo y avisa a la sala con
+   * `message_deleted`. Igual que el planificador de mensajes programados,
+   * solo una instancia barre a la vez.
+   */
+  async sweepExpiredMessages(): Promise<void> {
+    if (this.running || !this.chatGateway.server) {
+      return;
+    }
+
+    const lockTtl = Math.ceil((this.sweepInterval * 3) / 1000);
+    if (
+      !(await this.redisService.acquireLock(
+        SWEEPER_LOCK,
+        this.instanceId,
+        lockTtl,
+      ))
+    ) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      // Se retoma desde el último día sin vaciar, para no dejar al TTL (que
+      // no borra archivos ni avisa a la sala) lo caducado durante una parada
+      const { messages, pendingDay } =
+        await this.dynamoDBService.getExpiredMessages(
+          Math.floor(Date.now() / 1000),
+          this.batchSize,
+          await this.redisService.getExpirySweepDay(),
+        );
+      let nextDay = pendingDay;
+      for (const message of messages) {
+        if ((await this.expireMessage(message)) || !message.expiryDay) {
+          continue;
+        }
+        if (
+          await this.dynamoDBService.recordMessageExpiryFailure(
+            message.id,
+            MAX_EXPIRE_ATTEMPTS,
+          )
+        ) {
+          nextDay = message.expiryDay < nextDay ? message.expiryDay : nextDay;
+        } else {
+          console.warn(
+            `Mensaje caducado ${message.id} descartado del barrido tras ${MAX_EXPIRE_ATTEMPTS} intentos; lo borrará el TTL`,
+          );
+        }
+      }
+      await this.redisService.setExpirySweepDay(nextDay);
+    } catch (error) {
+      console.error('Error eliminando mensajes caducados:', error);
+    } finally {
+      this.running = false;
+      await this.redisService.releaseLock(SWEEPER_LOCK, this.instanceId);
+    }
+  }
+
+  /**
+   * Devuelve false si no se pudo eliminar, para volver a intentarlo en el
+   * siguiente barrido (hasta `MAX_EXPIRE_ATTEMPTS` veces).
+   */
+  private async expireMessage(message: any): Promise<boolean> {
+    try {
+      await this.chatGateway.deleteMessageFile(message);
+      await this.dynamoDBService.deleteMessage(message.id);
+
+      this.chatGateway.server
+        .to(`conversation:${message.conversationId}`)
+        .emit('message_deleted', {
+          messageId: message.id,
+          conversationId: message.conversationId,
+          mode: 'everyone',
+          reason: 'expired',
+          deletedAt: new Date().toISOString(),
+        });
+
+      const { pins, changed } = await this.pinsService.removePin(
+        message.conversationId,
+        message.id,
+      );
+      if (changed) {
+        this.chatGateway.emitPinsUpdated(message.conversationId, pins, {
+          action: 'unpin',
+          messageId: message.id,
+          updatedBy: null,
+        });
+      }
+      return true;
+    } catch (error) {
+      console.error(`Error eliminando mensaje caducado ${message.id}:`, error);
+      return false;
+    }
+  }
+
+  private parseMessageTtl(messageTtl: number | null): number | null {
+    if (messageTtl === null || messageTtl === 0) {
+      return null;
+    }
+    if (
+      !Number.isInteger(messageTtl) ||
+      messageTtl < 0 ||
+      messageTtl > this.maxTtlDays * 24 * 60 * 60
+    ) {
+      throw new BadRequestException(
+        `messageTtl debe ser un número de segundos entre 1 y ${this.maxTtlDays} días, o null`,
+      );
+    }
+    return messageTtl;
+  }
+}
@@ -0,0 +1,69 @@
+import { DynamoDBService } from './dynamodb.service';
+import {
+  MessageReactionsService,
+  summarizeReactions,
+} from './message-reactions.service';
+
+describe('MessageReactionsService', () => {
+  let reactions: Record<string, { userId: string; emoji: string }[]>;
+  let service: MessageReactionsService;
+
+  beforeEach(() => {
+    reactions = {
+      m1: [
+        { userId: 'alice', emoji: '👍' },
+        { userId: 'bob', emoji: '❤️' },
+        { userId: 'carol', emoji: '👍' },
+      ],
+    };
+    const dynamoDBService = {
+      getMessageReactions: jest.fn((messageId: string) =>
+        Promise.resolve(reactions[messageId] || []),
+      ),
+    };
+
+    service = new MessageReactionsService(
+      dynamoDBService as unknown as DynamoDBService,
+    );
+  });
+
+  it('accepts a single emoji, including modifiers, sequences and flags', () => {
+    for (const emoji of ['👍', '❤️', '👍🏽', '👨‍👩‍👧', '🇪🇸']) {
+      expect(service.isValidEmoji(emoji)).toBe(true);
+    }
+  });
+
+  it('rejects text, several emojis and anything that is not a string', () => {
+    for (const emoji of ['', 'a', 'ok', '1', '<b>', '👍👍', '👍 ', 'x👍', 42]) {
+      expect(service.isValidEmoji(emoji)).toBe(false);
+    }
+  });
+
+  it('groups reactions by emoji in the order they were first used', () => {
+    expect(
+      summarizeReactions([
+        { userId: 'bob', emoji: '❤️', createdAt: '2025-01-01T00:00:02.000Z' },
+        { userId: 'alice', emoji: '👍', createdAt: '2025-01-01T00:00:01.000Z' },
+        { userId: 'carol', emoji: '👍', createdAt: '2025-01-01T00:00:03.000Z' },
+      ]),
+    ).toEqual([
+      { emoji: '👍', count: 2, userIds: ['alice', 'carol'] },
+      { emoji: '❤️', count: 1, userIds: ['bob'] },
+    ]);
+  });
+
+  it('attaches the summary to each message', async () => {
+    await expect(
+      service.attachReactions([{ id: 'm1' }, { id: 'm2' }]),
+    ).resolves.toEqual([
+      {
+        id: 'm1',
+        reactions: [
+          { emoji: '👍', count: 2, userIds: ['alice', 'carol'] },
+          { emoji: '❤️', count: 1, userIds: ['bob'] },
+        ],
+      },
+      { id: 'm2', reactions: [] },
+    ]);
+  });
+});
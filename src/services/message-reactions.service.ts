@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+const MAX_EMOJI_LENGTH = 32;
+// Pictograma, o par de indicadores regionales para las banderas
+const EMOJI_START = /^(\p{Extended_Pictographic}|\p{Regional_Indicator})/u;
+const graphemeSegmenter = new Intl.Segmenter(undefined, {
+  granularity: 'grapheme',
+});
+
+export function summarizeReactions(
+  reactions: { userId: string; emoji: string; createdAt?: string }[],
+): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary>();
+  const ordered = [...reactions].sort((a, b) =>
+    (a.createdAt || '').localeCompare(b.createdAt || ''),
+  );
+
+  for (const reaction of ordered) {
+    const summary = summaries.get(reaction.emoji) || {
+      emoji: reaction.emoji,
+      count: 0,
+      userIds: [],
+    };
+    summary.count++;
+    summary.userIds.push(reaction.userId);
+    summaries.set(reaction.emoji, summary);
+  }
+
+  return Array.from(summaries.values());
+}
+
+@Injectable()
+export class MessageReactionsService {
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  /**
+   * Un único emoji: un solo grafema (incluye modificadores de tono y
+   * secuencias con ZWJ) que empieza por un pictograma.
+   */
+  isValidEmoji(emoji: unknown): emoji is string {
+    return (
+      typeof emoji === 'string' &&
+      emoji.length <= MAX_EMOJI_LENGTH &&
+      EMOJI_START.test(emoji) &&
+      [...graphemeSegmenter.segment(emoji)].length === 1
+    );
+  }
+
+  async addReaction(message: any, userId: string, emoji: string) {
+    await this.dynamoDBService.putReaction({
+      messageId: message.id,
+      conversationId: message.conversationId,
+      userId,
+      emoji,
+    });
+    return this.getSummary(message.id);
+  }
+
+  async removeReaction(message: any, userId: string, emoji: string) {
+    await this.dynamoDBService.deleteReaction(message.id, userId, emoji);
+    return this.getSummary(message.id);
+  }
+
+  async getSummary(messageId: string): Promise<ReactionSummary[]> {
+    const reactions = await this.dynamoDBService.getMessageReactions(messageId);
+    return summarizeReactions(reactions);
+  }
+
+  async attachReactions<T extends { id: string }>(
+    messages: T[],
+  ): Promise<(T & { reactions: ReactionSummary[] })[]> {
+    return Promise.all(
+      messages.map(async (message) => ({
+        ...message,
+        reactions: await this.getSummary(message.id),
+      })),
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { DynamoDBService } from './dynamodb.service';
+import { MessageReceiptsService } from './message-receipts.service';
+
+describe('MessageReceiptsService', () => {
+  const message = { id: 'm1', conversationId: 'c1', senderId: 'alice' };
+  let receipts: Record<string, any>;
+  let service: MessageReceiptsService;
+
+  beforeEach(() => {
+    receipts = {};
+    const dynamoDBService = {
+      getConversationParticipants: jest
+        .fn()
+        .mockResolvedValue([
+          { userId: 'alice' },
+          { userId: 'bob' },
+          { userId: 'carol' },
+        ]),
+      getConversationMessagesSince: jest.fn().mockResolvedValue([
+        message,
+        { ...message, id: 'm2', senderId: 'bob' },
+        {
+          ...message,
+          id: 'm3',
+          senderId: 'system',
+          messageType: 'system',
+        },
+      ]),
+      upsertReceipt: jest.fn(
+        (msg: any, userId: string, status: 'delivered' | 'read') => {
+          const key = `${msg.id}:${userId}`;
+          const now = new Date().toISOString();
+          const receipt = receipts[key] || { messageId: msg.id, userId };
+          receipt.deliveredAt = receipt.deliveredAt || now;
+          if (status === 'read') {
+            receipt.readAt = receipt.readAt || now;
+          }
+          receipts[key] = receipt;
+          return Promise.resolve(receipt);
+        },
+      ),
+      getReceiptsFor: jest.fn((messageIds: string[], userIds: string[]) =>
+        Promise.resolve(
+          Object.values(receipts).filter(
+            (r) =>
+              messageIds.includes(r.messageId) && userIds.includes(r.userId),
+          ),
+        ),
+      ),
+      putReceipts: jest.fn((items: any[]) => {
+        for (const item of items) {
+          receipts[`${item.messageId}:${item.userId}`] = item;
+        }
+        return Promise.resolve();
+      }),
+      getMessageReceipts: jest.fn((messageId: string) =>
+        Promise.resolve(
+          Object.values(receipts).filter((r) => r.messageId === messageId),
+        ),
+      ),
+    };
+
+    service = new MessageReceiptsService(
+      dynamoDBService as unknown as DynamoDBService,
+    );
+  });
+
+  it('ignores delivery confirmations from the sender', async () => {
+    await expect(service.markDelivered(message, 'alice')).resolves.toBeNull();
+  });
+
+  it('aggregates delivered and read counts over the recipients', async () => {
+    await service.markDelivered(message, 'bob');
+    const [update] = await service.markConversationRead(
+      'c1',
+      'carol',
+      new Date(0).toISOString(),
+    );
+
+    expect(update).toMatchObject({
+      senderId: 'alice',
+      userId: 'carol',
+      messages: [
+        { messageId: 'm1', recipientCount: 2, deliveredCount: 2, readCount: 1 },
+      ],
+    });
+  });
+
+  it('does not track receipts for system messages', async () => {
+    await expect(
+      service.markDelivered(
+        { ...message, senderId: 'system', messageType: 'system' },
+        'bob',
+      ),
+    ).resolves.toBeNull();
+  });
+
+  it('skips the reader own and system messages when marking as read', async () => {
+    const updates = await service.markConversationRead(
+      'c1',
+      'bob',
+      new Date(0).toISOString(),
+    );
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].messages.map((m) => m.messageId)).toEqual(['m1']);
+  });
+
+  it('groups read messages by sender and keeps the first delivery time', async () => {
+    const deliveredAt = '2024-01-01T00:00:00.000Z';
+    receipts['m1:carol'] = { messageId: 'm1', userId: 'carol', deliveredAt };
+
+    const updates = await service.markConversationRead(
+      'c1',
+      'carol',
+      new Date(0).toISOString(),
+    );
+
+    expect(updates.map((u) => u.senderId)).toEqual(['alice', 'bob']);
+    expect(receipts['m1:carol'].deliveredAt).toBe(deliveredAt);
+    expect(receipts['m2:carol'].readAt).toBe(updates[1].readAt);
+  });
+});
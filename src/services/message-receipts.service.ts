@@ -0,0 +1,192 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+
+export interface MessageStatusUpdate {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  userId: string;
+  status: 'delivered' | 'read';
+  deliveredAt: string | null;
+  readAt: string | null;
+  recipientCount: number;
+  deliveredCount: number;
+  readCount: number;
+}
+
+/** Mensajes de un remitente que un usuario acaba de leer */
+export interface MessagesReadUpdate {
+  conversationId: string;
+  senderId: string;
+  userId: string;
+  readAt: string;
+  messages: {
+    messageId: string;
+    recipientCount: number;
+    deliveredCount: number;
+    readCount: number;
+  }[];
+}
+
+@Injectable()
+export class MessageReceiptsService {
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  async markDelivered(
+    message: any,
+    userId: string,
+  ): Promise<MessageStatusUpdate | null> {
+    if (message.senderId === userId || message.messageType === 'system') {
+      return null;
+    }
+
+    const receipt = await this.dynamoDBService.upsertReceipt(
+      message,
+      userId,
+      'delivered',
+    );
+    const recipientIds = await this.getRecipientIds(message);
+    return this.buildStatusUpdate(message, receipt, 'delivered', recipientIds);
+  }
+
+  /**
+   * Marca como leídos los mensajes de otros participantes recibidos desde la
+   * última lectura del usuario. Los mensajes de sistema no llevan
+   * confirmaciones. Devuelve un resumen por remitente.
+   */
+  async markConversationRead(
+    conversationId: string,
+    userId: string,
+    since: string,
+  ): Promise<MessagesReadUpdate[]> {
+    const messages = await this.dynamoDBService.getConversationMessagesSince(
+      conversationId,
+      since,
+    );
+    const unread = messages.filter(
+      (message) =>
+        message.senderId !== userId && message.messageType !== 'system',
+    );
+    if (unread.length === 0) {
+      return [];
+    }
+
+    const participants =
+      await this.dynamoDBService.getConversationParticipants(conversationId);
+    const participantIds = participants.map((p) => p.userId as string);
+    const existing = await this.dynamoDBService.getReceiptsFor(
+      unread.map((message) => message.id),
+      participantIds,
+    );
+    const receiptsByKey = new Map<
+      string,
+      { deliveredAt?: string; readAt?: string }
+    >(existing.map((r) => [`${r.messageId}:${r.userId}`, r]));
+
+    // Los tiempos ya fijados se conservan, como en upsertReceipt
+    const readAt = new Date().toISOString();
+    const receipts = unread.map((message) => {
+      const key = `${message.id}:${userId}`;
+      const current = receiptsByKey.get(key);
+      const receipt = {
+        messageId: message.id,
+        userId,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        deliveredAt: current?.deliveredAt || readAt,
+        readAt: current?.readAt || readAt,
+      };
+      receiptsByKey.set(key, receipt);
+      return receipt;
+    });
+    await this.dynamoDBService.putReceipts(receipts);
+
+    const updatesBySender = new Map<string, MessagesReadUpdate>();
+    for (const message of unread) {
+      const recipientIds = participantIds.filter(
+        (id) => id !== message.senderId,
+      );
+      const recipientReceipts = recipientIds
+        .map((id) => receiptsByKey.get(`${message.id}:${id}`))
+        .filter((receipt) => receipt !== undefined);
+
+      let update = updatesBySender.get(message.senderId);
+      if (!update) {
+        update = {
+          conversationId,
+          senderId: message.senderId,
+          userId,
+          readAt,
+          messages: [],
+        };
+        updatesBySender.set(message.senderId, update);
+      }
+      update.messages.push({
+        messageId: message.id,
+        recipientCount: recipientIds.length,
+        deliveredCount: recipientReceipts.filter((r) => r.deliveredAt).length,
+        readCount: recipientReceipts.filter((r) => r.readAt).length,
+      });
+    }
+
+    return [...updatesBySender.values()];
+  }
+
+  async getReceipts(message: any) {
+    const recipientIds = await this.getRecipientIds(message);
+    const receipts = await this.dynamoDBService.getMessageReceipts(message.id);
+    const receiptsByUser = new Map(receipts.map((r) => [r.userId, r]));
+
+    const recipients = recipientIds.map((userId) => {
+      const receipt = receiptsByUser.get(userId);
+      return {
+        userId,
+        deliveredAt: receipt?.deliveredAt || null,
+        readAt: receipt?.readAt || null,
+      };
+    });
+
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      recipientCount: recipients.length,
+      deliveredCount: recipients.filter((r) => r.deliveredAt).length,
+      readCount: recipients.filter((r) => r.readAt).length,
+      recipients,
+    };
+  }
+
+  private async getRecipientIds(message: any): Promise<string[]> {
+    const participants = await this.dynamoDBService.getConversationParticipants(
+      message.conversationId,
+    );
+    return participants
+      .map((p) => p.userId as string)
+      .filter((userId) => userId !== message.senderId);
+  }
+
+  private async buildStatusUpdate(
+    message: any,
+    receipt: any,
+    status: 'delivered' | 'read',
+    recipientIds: string[],
+  ): Promise<MessageStatusUpdate> {
+    const receipts = await this.dynamoDBService.getMessageReceipts(message.id);
+    const recipientReceipts = receipts.filter((r) =>
+      recipientIds.includes(r.userId),
+    );
+
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      userId: receipt.userId,
+      status,
+      deliveredAt: receipt.deliveredAt || null,
+      readAt: receipt.readAt || null,
+      recipientCount: recipientIds.length,
+      deliveredCount: recipientReceipts.filter((r) => r.deliveredAt).length,
+      readCount: recipientReceipts.filter((r) => r.readAt).length,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { PinsService } from './pins.service';
+
+describe('PinsService', () => {
+  let conversation: Record<string, any>;
+  let dynamoDBService: Record<string, jest.Mock>;
+  let service: PinsService;
+
+  beforeEach(() => {
+    conversation = { id: 'c1', type: 'private' };
+    dynamoDBService = {
+      getConversation: jest.fn(() => Promise.resolve({ ...conversation })),
+      updatePinnedMessages: jest.fn(
+        (conversationId: string, pins: any[], expected?: string) => {
+          if (expected !== conversation.pinsUpdatedAt) {
+            return Promise.resolve(false);
+          }
+          conversation.pinnedMessages = pins;
+          conversation.pinsUpdatedAt = new Date().toISOString();
+          return Promise.resolve(true);
+        },
+      ),
+    };
+
+    service = new PinsService(
+      dynamoDBService as unknown as DynamoDBService,
+      {
+        assertParticipant: jest.fn().mockResolvedValue(undefined),
+        assertGroupPermission: jest.fn().mockResolvedValue('admin'),
+      } as unknown as ConversationAccessService,
+      { get: () => 2 } as unknown as ConfigService,
+    );
+  });
+
+  it('does not pin the same message twice', async () => {
+    const message = { id: 'm1', conversationId: 'c1' };
+    await service.pin(message, 'alice');
+    const { pins, changed } = await service.pin(message, 'bob');
+
+    expect(changed).toBe(false);
+    expect(pins.map((pin) => pin.messageId)).toEqual(['m1']);
+  });
+
+  it('rejects pins above the configured cap', async () => {
+    await service.pin({ id: 'm1', conversationId: 'c1' }, 'alice');
+    await service.pin({ id: 'm2', conversationId: 'c1' }, 'alice');
+
+    await expect(
+      service.pin({ id: 'm3', conversationId: 'c1' }, 'alice'),
+    ).rejects.toThrow('Solo se pueden fijar 2 mensajes');
+  });
+
+  it('reports whether removing a pin changed the list', async () => {
+    await service.pin({ id: 'm1', conversationId: 'c1' }, 'alice');
+
+    await expect(service.removePin('c1', 'm2')).resolves.toMatchObject({
+      changed: false,
+    });
+    await expect(service.removePin('c1', 'm1')).resolves.toEqual({
+      pins: [],
+      changed: true,
+    });
+  });
+});
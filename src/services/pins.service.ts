@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DynamoDBService } from './dynamodb.service';
+import { ConversationAccessService } from './conversation-access.service';
+
+export interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+const MAX_UPDATE_ATTEMPTS = 3;
+
+@Injectable()
+export class PinsService {
+  private readonly maxPins: number;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxPins = this.configService.get('app.conversations.maxPins') || 10;
+  }
+
+  /**
+   * En grupos solo owner/admin pueden fijar; en chats privados cualquier
+   * participante.
+   */
+  async assertCanPin(conversationId: string, userId: string): Promise<void> {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (conversation?.type === 'group') {
+      await this.conversationAccessService.assertGroupPermission(
+        conversationId,
+        userId,
+        'pin_message',
+      );
+    } else {
+      await this.conversationAccessService.assertParticipant(
+        conversationId,
+        userId,
+      );
+    }
+  }
+
+  async pin(message: any, userId: string) {
+    await this.assertCanPin(message.conversationId, userId);
+
+    return this.updatePins(message.conversationId, (pins) => {
+      if (pins.some((pin) => pin.messageId === message.id)) {
+        return null;
+      }
+      if (pins.length >= this.maxPins) {
+        throw new Error(`Solo se pueden fijar ${this.maxPins} mensajes`);
+      }
+      return [
+        ...pins,
+        {
+          messageId: message.id,
+          pinnedBy: userId,
+          pinnedAt: new Date().toISOString(),
+        },
+      ];
+    });
+  }
+
+  async unpin(message: any, userId: string) {
+    await this.assertCanPin(message.conversationId, userId);
+    return this.removePin(message.conversationId, message.id);
+  }
+
+  /**
+   * Quita el mensaje de los fijados sin comprobar permisos; se usa al
+   * eliminar el mensaje.
+   */
+  async removePin(conversationId: string, messageId: string) {
+    return this.updatePins(conversationId, (pins) =>
+      pins.some((pin) => pin.messageId === messageId)
+        ? pins.filter((pin) => pin.messageId !== messageId)
+        : null,
+    );
+  }
+
+  async getPins(conversationId: string) {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    const pins: PinnedMessage[] = conversation?.pinnedMessages || [];
+
+    const result: (PinnedMessage & { message: any })[] = [];
+    for (const pin of pins) {
+      const message = await this.dynamoDBService.getMessage(pin.messageId);
+      if (message && !message.isDeleted) {
+        result.push({ ...pin, message });
+      }
+    }
+    return result;
+  }
+
+  private async updatePins(
+    conversationId: string,
+    update: (pins: PinnedMessage[]) => PinnedMessage[] | null,
+  ): Promise<{ pins: PinnedMessage[]; changed: boolean }> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const conversation =
+        await this.dynamoDBService.getConversation(conversationId);
+      if (!conversation) {
+        return { pins: [], changed: false };
+      }
+
+      const pins: PinnedMessage[] = conversation.pinnedMessages || [];
+      const nextPins = update(pins);
+      if (!nextPins) {
+        return { pins, changed: false };
+      }
+
+      if (
+        await this.dynamoDBService.updatePinnedMessages(
+          conversationId,
+          nextPins,
+          conversation.pinsUpdatedAt,
+        )
+      ) {
+        return { pins: nextPins, changed: true };
+      }
+    }
+
+    throw new Error(
+      'No se pudieron actualizar los mensajes fijados, inténtalo de nuevo',
+    );
+  }
+}
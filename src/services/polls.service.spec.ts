@@ -0,0 +1,86 @@
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { Poll, PollsService, tallyPoll } from './polls.service';
+
+const poll: Poll = {
+  question: '¿Dónde comemos?',
+  options: [
+    { id: 'o1', text: 'Pizza' },
+    { id: 'o2', text: 'Sushi' },
+  ],
+  multipleChoice: false,
+  anonymous: false,
+};
+
+describe('tallyPoll', () => {
+  it('counts votes per option and hides voters in anonymous polls', () => {
+    const votes = [
+      { userId: 'alice', optionIds: ['o1'] },
+      { userId: 'bob', optionIds: ['o1'] },
+    ];
+
+    expect(tallyPoll(poll, votes).options).toEqual([
+      { id: 'o1', text: 'Pizza', votes: 2, voterIds: ['alice', 'bob'] },
+      { id: 'o2', text: 'Sushi', votes: 0, voterIds: [] },
+    ]);
+    expect(tallyPoll({ ...poll, anonymous: true }, votes).options[0]).toEqual({
+      id: 'o1',
+      text: 'Pizza',
+      votes: 2,
+    });
+  });
+});
+
+describe('PollsService', () => {
+  let dynamoDBService: Record<string, jest.Mock>;
+  let service: PollsService;
+  const message = { id: 'm1', conversationId: 'c1', senderId: 'alice', poll };
+
+  beforeEach(() => {
+    dynamoDBService = {
+      getConversation: jest.fn().mockResolvedValue({ id: 'c1', type: 'group' }),
+      putPollVote: jest.fn().mockResolvedValue(undefined),
+      deletePollVote: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new PollsService(
+      dynamoDBService as unknown as DynamoDBService,
+      {
+        assertParticipant: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ConversationAccessService,
+    );
+  });
+
+  it('builds polls only for groups and with distinct options', async () => {
+    await expect(
+      service.buildPoll('c1', { question: ' ¿Hora? ', options: ['10', '11'] }),
+    ).resolves.toEqual(
+      expect.objectContaining({ question: '¿Hora?', multipleChoice: false }),
+    );
+    await expect(
+      service.buildPoll('c1', { question: '¿Hora?', options: ['10', '10'] }),
+    ).rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+
+    dynamoDBService.getConversation.mockResolvedValue({ type: 'private' });
+    await expect(
+      service.buildPoll('c1', { question: '¿Hora?', options: ['10', '11'] }),
+    ).rejects.toMatchObject({ code: 'NOT_A_GROUP' });
+  });
+
+  it('stores a single vote per member and rejects closed polls', async () => {
+    await service.vote(message, 'bob', ['o2']);
+    expect(dynamoDBService.putPollVote).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'bob', optionIds: ['o2'] }),
+    );
+
+    await expect(
+      service.vote(message, 'bob', ['o1', 'o2']),
+    ).rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+    await expect(
+      service.vote(
+        { ...message, poll: { ...poll, closedAt: new Date().toISOString() } },
+        'bob',
+        ['o1'],
+      ),
+    ).rejects.toMatchObject({ code: 'POLL_CLOSED' });
+  });
+});
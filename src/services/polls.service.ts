@@ -0,0 +1,230 @@
+import { Injectable } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBService } from './dynamodb.service';
+import { ConversationAccessService } from './conversation-access.service';
+import { MessageError } from '../utils/message-ack';
+
+export interface Poll {
+  question: string;
+  options: { id: string; text: string }[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+  closedAt?: string;
+  closedBy?: string;
+}
+
+export interface PollResults {
+  totalVoters: number;
+  closed: boolean;
+  options: { id: string; text: string; votes: number; voterIds?: string[] }[];
+}
+
+const MAX_OPTIONS = 10;
+const MAX_TEXT_LENGTH = 300;
+
+export function isPollClosed(poll: Poll, now = Date.now()): boolean {
+  return (
+    !!poll.closedAt || (!!poll.closesAt && Date.parse(poll.closesAt) <= now)
+  );
+}
+
+/**
+ * Recuento por opción. En las encuestas anónimas no se exponen los votantes.
+ */
+export function tallyPoll(
+  poll: Poll,
+  votes: { userId: string; optionIds: string[] }[],
+): PollResults {
+  return {
+    totalVoters: votes.length,
+    closed: isPollClosed(poll),
+    options: poll.options.map((option) => {
+      const voterIds = votes
+        .filter((vote) => vote.optionIds.includes(option.id))
+        .map((vote) => vote.userId);
+      return {
+        id: option.id,
+        text: option.text,
+        votes: voterIds.length,
+        ...(poll.anonymous ? {} : { voterIds }),
+      };
+    }),
+  };
+}
+
+@Injectable()
+export class PollsService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  /**
+   * Valida los datos de una encuesta nueva y asigna id a cada opción. Solo
+   * se permiten en grupos.
+   */
+  async buildPoll(conversationId: string, input: any): Promise<Poll> {
+    const conversation =
+      await this.dynamoDBService.getConversation(conversationId);
+    if (conversation?.type !== 'group') {
+      throw new MessageError(
+        'NOT_A_GROUP',
+        'Las encuestas solo están disponibles en grupos',
+      );
+    }
+
+    const question = this.normalizeText(input?.question);
+    if (!question) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        'La encuesta necesita una pregunta',
+      );
+    }
+
+    const optionTexts: string[] = Array.isArray(input?.options)
+      ? input.options.map((option: unknown) => this.normalizeText(option))
+      : [];
+    if (
+      optionTexts.length < 2 ||
+      optionTexts.length > MAX_OPTIONS ||
+      optionTexts.some((text) => !text) ||
+      new Set(optionTexts).size !== optionTexts.length
+    ) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        `La encuesta necesita entre 2 y ${MAX_OPTIONS} opciones distintas`,
+      );
+    }
+
+    let closesAt: string | undefined;
+    if (input.closesAt !== undefined && input.closesAt !== null) {
+      const date = new Date(input.closesAt);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        throw new MessageError(
+          'INVALID_PAYLOAD',
+          'closesAt debe ser una fecha ISO 8601 futura',
+        );
+      }
+      closesAt = date.toISOString();
+    }
+
+    return {
+      question,
+      options: optionTexts.map((text) => ({ id: uuidv4(), text })),
+      multipleChoice: input.multipleChoice === true,
+      anonymous: input.anonymous === true,
+      ...(closesAt ? { closesAt } : {}),
+    };
+  }
+
+  /**
+   * Registra (o sustituye) el voto del participante. Una lista vacía retira
+   * el voto.
+   */
+  async vote(message: any, userId: string, optionIds: unknown): Promise<void> {
+    const poll = this.getOpenPoll(message);
+
+    if (
+      !Array.isArray(optionIds) ||
+      new Set(optionIds).size !== optionIds.length ||
+      optionIds.some(
+        (optionId) => !poll.options.some((option) => option.id === optionId),
+      )
+    ) {
+      throw new MessageError('INVALID_PAYLOAD', 'Opción de encuesta no válida');
+    }
+    if (!poll.multipleChoice && optionIds.length > 1) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        'Esta encuesta solo admite una opción',
+      );
+    }
+
+    await this.conversationAccessService.assertParticipant(
+      message.conversationId,
+      userId,
+    );
+
+    if (optionIds.length === 0) {
+      await this.dynamoDBService.deletePollVote(message.id, userId);
+    } else {
+      await this.dynamoDBService.putPollVote({
+        messageId: message.id,
+        conversationId: message.conversationId,
+        userId,
+        optionIds: optionIds as string[],
+      });
+    }
+  }
+
+  /**
+   * Cierra la encuesta. Puede hacerlo quien la creó o un owner/admin del
+   * grupo.
+   */
+  async close(message: any, userId: string) {
+    this.getOpenPoll(message);
+
+    if (message.senderId === userId) {
+      await this.conversationAccessService.assertParticipant(
+        message.conversationId,
+        userId,
+      );
+    } else {
+      await this.conversationAccessService.assertGroupPermission(
+        message.conversationId,
+        userId,
+        'close_poll',
+      );
+    }
+
+    const closedMessage = await this.dynamoDBService.closePoll(message, userId);
+    if (!closedMessage) {
+      throw new MessageError('POLL_CLOSED', 'La encuesta ya está cerrada');
+    }
+    return closedMessage;
+  }
+
+  /**
+   * Añade el recuento y el voto del usuario a las encuestas de una página de
+   * historial.
+   */
+  async attachResults<T extends { id: string; poll?: Poll }>(
+    messages: T[],
+    userId: string,
+  ): Promise<T[]> {
+    return Promise.all(
+      messages.map(async (message) => {
+        if (!message.poll) {
+          return message;
+        }
+        const votes = await this.dynamoDBService.getPollVotes(message.id);
+        const myVote = votes.find((vote) => vote.userId === userId);
+        return {
+          ...message,
+          poll: {
+            ...message.poll,
+            results: tallyPoll(message.poll, votes),
+            myOptionIds: myVote?.optionIds || [],
+          },
+        };
+      }),
+    );
+  }
+
+  private getOpenPoll(message: any): Poll {
+    if (!message || message.isDeleted || !message.poll) {
+      throw new MessageError('MESSAGE_NOT_FOUND', 'Encuesta no encontrada');
+    }
+    if (isPollClosed(message.poll)) {
+      throw new MessageError('POLL_CLOSED', 'La encuesta está cerrada');
+    }
+    return message.poll;
+  }
+
+  private normalizeText(value: unknown): string {
+    return typeof value === 'string'
+      ? value.trim().slice(0, MAX_TEXT_LENGTH)
+      : '';
+  }
+}
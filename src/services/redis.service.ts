@@ -33,8 +33,7 @@ export class RedisService implements OnModuleDestroy, OnModuleInit {
     try {
       await this.redisClient.set(`user:${userId}`, JSON.stringify(userData));
       await this.redisClient.expire(`user:${userId}`, 3600);
-    } catch (error) {
-    }
+    } catch (error) {}
   }
 
   async getUser(userId: string): Promise<any> {
@@ -49,15 +48,13 @@ export class RedisService implements OnModuleDestroy, OnModuleInit {
   async setUserOnline(userId: string): Promise<void> {
     try {
       await this.redisClient.sAdd('online_users', userId);
-    } catch (error) {
-    }
+    } catch (error) {}
   }
 
   async setUserOffline(userId: string): Promise<void> {
     try {
       await this.redisClient.sRem('online_users', userId);
-    } catch (error) {
-    }
+    } catch (error) {}
   }
 
   async getOnlineUsers(): Promise<string[]> {
@@ -72,10 +69,204 @@ export class RedisService implements OnModuleDestroy, OnModuleInit {
     try {
       await this.redisClient.del(`user:${userId}`);
       await this.redisClient.sRem('online_users', userId);
+    } catch (error) {}
+  }
+
+  async revokeToken(tokenId: string, ttlSeconds: number): Promise<void> {
+    try {
+      await this.redisClient.set(`revoked_token:${tokenId}`, '1', {
+        EX: Math.max(ttlSeconds, 1),
+      });
+    } catch (error) {
+      console.error('Error revocando token en Redis:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Si Redis no responde se considera revocado: es preferible rechazar un
+   * token válido que aceptar uno revocado.
+   */
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    try {
+      return (await this.redisClient.exists(`revoked_token:${tokenId}`)) === 1;
+    } catch (error) {
+      console.error('Error comprobando revocación de token en Redis:', error);
+      return true;
+    }
+  }
+
+  async getMembership(
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean | null> {
+    try {
+      const value = await this.redisClient.get(
+        `membership:${conversationId}:${userId}`,
+      );
+      return value === null ? null : value === '1';
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async setMembership(
+    conversationId: string,
+    userId: string,
+    isMember: boolean,
+    ttlSeconds: number,
+  ): Promise<void> {
+    try {
+      await this.redisClient.set(
+        `membership:${conversationId}:${userId}`,
+        isMember ? '1' : '0',
+        { EX: ttlSeconds },
+      );
+    } catch (error) {}
+  }
+
+  async deleteMembership(
+    conversationId: string,
+    userId: string,
+  ): Promise<void> {
+    try {
+      await this.redisClient.del(`membership:${conversationId}:${userId}`);
+    } catch (error) {}
+  }
+
+  async acquireLock(
+    key: string,
+    token: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    try {
+      const result = await this.redisClient.set(`lock:${key}`, token, {
+        NX: true,
+        EX: ttlSeconds,
+      });
+      return result === 'OK';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      // Solo libera el lock si sigue siendo de quien lo adquirió
+      await this.redisClient.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        { keys: [`lock:${key}`], arguments: [token] },
+      );
+    } catch (error) {}
+  }
+
+  /**
+   * Reserva `clientMessageId` para `messageId`. Devuelve null si la reserva
+   * es nueva o el id del mensaje que ya lo tenía reservado.
+   */
+  async reserveClientMessageId(
+    userId: string,
+    clientMessageId: string,
+    messageId: string,
+    ttlSeconds: number,
+  ): Promise<string | null> {
+    const key = `client_message:${userId}:${clientMessageId}`;
+    try {
+      const result = await this.redisClient.set(key, messageId, {
+        NX: true,
+        EX: ttlSeconds,
+      });
+      if (result === 'OK') {
+        return null;
+      }
+      return await this.redisClient.get(key);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async releaseClientMessageId(
+    userId: string,
+    clientMessageId: string,
+  ): Promise<void> {
+    try {
+      await this.redisClient.del(`client_message:${userId}:${clientMessageId}`);
+    } catch (error) {}
+  }
+
+  async setDraft(
+    userId: string,
+    conversationId: string,
+    draft: any,
+    ttlSeconds: number,
+  ): Promise<void> {
+    try {
+      await this.redisClient.set(
+        `draft:${userId}:${conversationId}`,
+        JSON.stringify(draft),
+        { EX: ttlSeconds },
+      );
+    } catch (error) {}
+  }
+
+  /**
+   * Borradores del usuario por conversación; las conversaciones sin borrador
+   * no aparecen.
+   */
+  async getDrafts(
+    userId: string,
+    conversationIds: string[],
+  ): Promise<Record<string, any>> {
+    const drafts: Record<string, any> = {};
+    if (conversationIds.length === 0) {
+      return drafts;
+    }
+    try {
+      const values: (string | null)[] = await this.redisClient.mGet(
+        conversationIds.map(
+          (conversationId) => `draft:${userId}:${conversationId}`,
+        ),
+      );
+      values.forEach((value, index) => {
+        if (value) {
+          drafts[conversationIds[index]] = JSON.parse(value);
+        }
+      });
+    } catch (error) {}
+    return drafts;
+  }
+
+  /**
+   * Devuelve true si había un borrador que eliminar.
+   */
+  async deleteDraft(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      return (
+        (await this.redisClient.del(`draft:${userId}:${conversationId}`)) > 0
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Primer día de caducidad que el barrido de mensajes temporales aún no ha
+   * vaciado. Se guarda sin TTL para retomar el barrido tras una parada.
+   */
+  async getExpirySweepDay(): Promise<string | null> {
+    try {
+      return await this.redisClient.get('message_expiration:next_day');
     } catch (error) {
+      return null;
     }
   }
 
+  async setExpirySweepDay(day: string): Promise<void> {
+    try {
+      await this.redisClient.set('message_expiration:next_day', day);
+    } catch (error) {}
+  }
+
   async onModuleDestroy() {
     await this.redisClient.quit();
   }
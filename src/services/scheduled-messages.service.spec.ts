@@ -0,0 +1,149 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatGateway } from '../gateways/chat.gateway';
+import { MessageError } from '../utils/message-ack';
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+
+describe('ScheduledMessagesService', () => {
+  let schedules: Record<string, any>;
+  let lockHeld: boolean;
+  let chatGateway: { server: object; sendMessage: jest.Mock };
+
+  const createService = () => {
+    const dynamoDBService = {
+      getScheduledMessagesByStatus: jest.fn((status: string) =>
+        Promise.resolve(
+          Object.values(schedules).filter((s) => s.status === status),
+        ),
+      ),
+      updateScheduledMessage: jest.fn(
+        (id: string, expectedStatus: string, changes: any) => {
+          if (schedules[id].status !== expectedStatus) {
+            return Promise.resolve(null);
+          }
+          schedules[id] = { ...schedules[id], ...changes };
+          return Promise.resolve(schedules[id]);
+        },
+      ),
+      getMessage: jest.fn().mockResolvedValue(null),
+      hasSentFileUrl: jest.fn((fileUrl: string, senderId: string) =>
+        Promise.resolve(
+          fileUrl === '/api/files/informe.pdf' && senderId === 'alice',
+        ),
+      ),
+      createScheduledMessage: jest.fn((schedule: any) =>
+        Promise.resolve(schedule),
+      ),
+    };
+    const redisService = {
+      acquireLock: jest.fn(() => {
+        if (lockHeld) {
+          return Promise.resolve(false);
+        }
+        lockHeld = true;
+        return Promise.resolve(true);
+      }),
+      releaseLock: jest.fn(() => {
+        lockHeld = false;
+        return Promise.resolve();
+      }),
+    };
+
+    return new ScheduledMessagesService(
+      dynamoDBService as unknown as DynamoDBService,
+      redisService as unknown as RedisService,
+      { get: () => undefined } as unknown as ConfigService,
+      {
+        isParticipant: jest.fn().mockResolvedValue(true),
+      } as unknown as ConversationAccessService,
+      chatGateway as unknown as ChatGateway,
+    );
+  };
+
+  beforeEach(() => {
+    lockHeld = false;
+    schedules = {
+      s1: {
+        id: 's1',
+        conversationId: 'c1',
+        senderId: 'alice',
+        content: 'hola',
+        messageType: 'text',
+        status: 'pending',
+      },
+    };
+    chatGateway = { server: {}, sendMessage: jest.fn().mockResolvedValue({}) };
+  });
+
+  it('delivers a due message once even with several instances polling', async () => {
+    await Promise.all([
+      createService().processDueMessages(),
+      createService().processDueMessages(),
+    ]);
+    await createService().processDueMessages();
+
+    expect(chatGateway.sendMessage).toHaveBeenCalledTimes(1);
+    expect(chatGateway.sendMessage).toHaveBeenCalledWith(
+      'alice',
+      { conversationId: 'c1', content: 'hola', messageType: 'text' },
+      's1',
+    );
+    expect(schedules.s1.status).toBe('sent');
+  });
+
+  it('does nothing when there is no socket server', async () => {
+    chatGateway.server = undefined as unknown as object;
+    await createService().processDueMessages();
+
+    expect(chatGateway.sendMessage).not.toHaveBeenCalled();
+    expect(schedules.s1.status).toBe('pending');
+  });
+
+  it('only schedules files the sender uploaded to the conversation', async () => {
+    const service = createService();
+    const data = {
+      messageType: 'file',
+      payload: { fileUrl: '/api/files/informe.pdf', fileName: 'informe.pdf' },
+      sendAt: new Date(Date.now() + 60000).toISOString(),
+    };
+
+    await expect(service.schedule('c1', 'alice', data)).resolves.toMatchObject({
+      content: 'informe.pdf',
+      payload: data.payload,
+    });
+    await expect(service.schedule('c1', 'bob', data)).rejects.toThrow(
+      'El archivo no se ha subido a esta conversación',
+    );
+  });
+
+  it('marks a message that can never be sent as failed', async () => {
+    chatGateway.sendMessage.mockRejectedValue(
+      new MessageError('INVALID_PAYLOAD', 'El mensaje está vacío'),
+    );
+    await createService().processDueMessages();
+
+    expect(schedules.s1).toMatchObject({
+      status: 'failed',
+      error: 'El mensaje está vacío',
+    });
+  });
+
+  it('gives up on interrupted sends after several attempts', async () => {
+    chatGateway.sendMessage.mockRejectedValue(new Error('Timeout'));
+    await createService().processDueMessages();
+    expect(schedules.s1).toMatchObject({
+      status: 'sending',
+      lastError: 'Timeout',
+    });
+
+    for (let i = 0; i < 5; i++) {
+      schedules.s1.claimedAt = '2000-01-01T00:00:00.000Z';
+      await createService().processDueMessages();
+    }
+
+    expect(chatGateway.sendMessage).toHaveBeenCalledTimes(5);
+    expect(schedules.s1).toMatchObject({ status: 'failed', error: 'Timeout' });
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBService } from './dynamodb.service';
+import { RedisService } from './redis.service';
+import { ConversationAccessService } from './conversation-access.service';
+import { ChatGateway } from '../gateways/chat.gateway';
+import { MessageError } from '../utils/message-ack';
+import { buildMessageBody } from '../utils/message-types';
+
+const SCHEDULER_LOCK = 'scheduled_messages';
+// Un envío reclamado que no termina en este tiempo se considera interrumpido
+const STALE_SENDING_MS = 5 * 60 * 1000;
+// Intentos de envío antes de dar por fallida una programación
+const MAX_SEND_ATTEMPTS = 5;
+
+@Injectable()
+export class ScheduledMessagesService implements OnModuleInit, OnModuleDestroy {
+  private readonly pollInterval: number;
+  private readonly batchSize: number;
+  private readonly instanceId = uuidv4();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly conversationAccessService: ConversationAccessService,
+    private readonly chatGateway: ChatGateway,
+  ) {
+    this.pollInterval =
+      this.configService.get('app.scheduledMessages.pollInterval') || 10000;
+    this.batchSize =
+      this.configService.get('app.scheduledMessages.batchSize') || 25;
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => {
+      void this.processDueMessages();
+    }, this.pollInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async schedule(
+    conversationId: string,
+    senderId: string,
+    data: {
+      content?: string;
+      messageType?: string;
+      payload?: Record<string, any>;
+      sendAt: string;
+    },
+  ) {
+    const messageType = data?.messageType || 'text';
+    if (messageType === 'poll') {
+      throw new BadRequestException('Las encuestas no se pueden programar');
+    }
+
+    let body: { content: string; payload?: Record<string, any> };
+    try {
+      body = buildMessageBody(messageType, data);
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+    if (
+      body.payload?.fileUrl &&
+      !(await this.dynamoDBService.hasSentFileUrl(
+        body.payload.fileUrl,
+        senderId,
+        conversationId,
+      ))
+    ) {
+      throw new BadRequestException(
+        'El archivo no se ha subido a esta conversación',
+      );
+    }
+
+    return this.dynamoDBService.createScheduledMessage({
+      id: uuidv4(),
+      conversationId,
+      senderId,
+      content: body.content,
+      messageType,
+      ...(body.payload ? { payload: body.payload } : {}),
+      sendAt: this.parseSendAt(data.sendAt),
+    });
+  }
+
+  async list(conversationId: string, senderId: string) {
+    return this.dynamoDBService.getConversationScheduledMessages(
+      conversationId,
+      senderId,
+    );
+  }
+
+  async update(
+    conversationId: string,
+    scheduleId: string,
+    senderId: string,
+    data: { content?: string; sendAt?: string },
+  ) {
+    const schedule = await this.getOwnSchedule(
+      conversationId,
+      scheduleId,
+      senderId,
+    );
+
+    const changes: Record<string, any> = {};
+    if (data?.content !== undefined) {
+      if (!data.content) {
+        throw new BadRequestException('content no puede estar vacío');
+      }
+      if (schedule.payload) {
+        throw new BadRequestException(
+          `El contenido de los mensajes de tipo ${schedule.messageType} se genera a partir del payload`,
+        );
+      }
+      changes.content = data.content;
+    }
+    if (data?.sendAt !== undefined) {
+      changes.sendAt = this.parseSendAt(data.sendAt);
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('Indica content o sendAt');
+    }
+
+    return this.updatePending(scheduleId, changes);
+  }
+
+  async cancel(conversationId: string, scheduleId: string, senderId: string) {
+    await this.getOwnSchedule(conversationId, scheduleId, senderId);
+    return this.updatePending(scheduleId, { status: 'cancelled' });
+  }
+
+  /**
+   * Un solo proceso revisa la cola a la vez (lock en Redis) y cada envío se
+   * reclama con una escritura condicional, de modo que cada programación se
+   * entrega una única vez aunque haya varias instancias de la API.
+   */
+  async processDueMessages(): Promise<void> {
+    // Sin servidor de sockets (p. ej. al ejecutar migraciones) no se entrega nada
+    if (this.running || !this.chatGateway.server) {
+      return;
+    }
+
+    const lockTtl = Math.ceil((this.pollInterval * 3) / 1000);
+    if (
+      !(await this.redisService.acquireLock(
+        SCHEDULER_LOCK,
+        this.instanceId,
+        lockTtl,
+      ))
+    ) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.recoverStaleSends();
+
+      const due = await this.dynamoDBService.getScheduledMessagesByStatus(
+        'pending',
+        new Date().toISOString(),
+        this.batchSize,
+      );
+      for (const schedule of due) {
+        const claimed = await this.dynamoDBService.updateScheduledMessage(
+          schedule.id,
+          'pending',
+          {
+            status: 'sending',
+            claimedAt: new Date().toISOString(),
+            attempts: 1,
+          },
+        );
+        if (claimed) {
+          await this.deliver(claimed);
+        }
+      }
+    } catch (error) {
+      console.error('Error procesando mensajes programados:', error);
+    } finally {
+      this.running = false;
+      await this.redisService.releaseLock(SCHEDULER_LOCK, this.instanceId);
+    }
+  }
+
+  /**
+   * El mensaje entregado usa el id de la programación, así que si el proceso
+   * cayó tras crearlo basta con marcarlo como enviado. Tras
+   * `MAX_SEND_ATTEMPTS` intentos la programación se marca como fallida.
+   */
+  private async recoverStaleSends(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_SENDING_MS).toISOString();
+    const sending = await this.dynamoDBService.getScheduledMessagesByStatus(
+      'sending',
+      new Date().toISOString(),
+      this.batchSize,
+    );
+
+    for (const schedule of sending) {
+      if ((schedule.claimedAt || '') > staleBefore) {
+        continue;
+      }
+
+      if (await this.dynamoDBService.getMessage(schedule.id)) {
+        await this.dynamoDBService.updateScheduledMessage(
+          schedule.id,
+          'sending',
+          { status: 'sent', sentMessageId: schedule.id },
+        );
+        continue;
+      }
+
+      const attempts: number = schedule.attempts || 1;
+      if (attempts >= MAX_SEND_ATTEMPTS) {
+        await this.dynamoDBService.updateScheduledMessage(
+          schedule.id,
+          'sending',
+          {
+            status: 'failed',
+            error: schedule.lastError || 'No se pudo enviar el mensaje',
+          },
+        );
+        continue;
+      }
+
+      const reclaimed = await this.dynamoDBService.updateScheduledMessage(
+        schedule.id,
+        'sending',
+        { claimedAt: new Date().toISOString(), attempts: attempts + 1 },
+      );
+      if (reclaimed) {
+        await this.deliver(reclaimed);
+      }
+    }
+  }
+
+  private async deliver(schedule: any): Promise<void> {
+    try {
+      const isParticipant = await this.conversationAccessService.isParticipant(
+        schedule.conversationId,
+        schedule.senderId,
+      );
+      if (!isParticipant) {
+        await this.dynamoDBService.updateScheduledMessage(
+          schedule.id,
+          'sending',
+          {
+            status: 'failed',
+            error: 'El remitente ya no participa en la conversación',
+          },
+        );
+        return;
+      }
+
+      await this.chatGateway.sendMessage(
+        schedule.senderId,
+        {
+          conversationId: schedule.conversationId,
+          content: schedule.content,
+          messageType: schedule.messageType,
+          ...(schedule.payload ? { payload: schedule.payload } : {}),
+        },
+        schedule.id,
+      );
+
+      await this.dynamoDBService.updateScheduledMessage(
+        schedule.id,
+        'sending',
+        { status: 'sent', sentMessageId: schedule.id },
+      );
+    } catch (error) {
+      console.error(`Error enviando mensaje programado ${schedule.id}:`, error);
+      await this.recordSendError(schedule.id, error);
+    }
+  }
+
+  /**
+   * Un mensaje no válido (por ejemplo, vacío tras sanear el Markdown) no se
+   * podrá enviar nunca y se marca como fallido. Los demás errores se guardan
+   * en `lastError` y el envío se reintenta al quedar interrumpido.
+   */
+  private async recordSendError(scheduleId: string, error: any) {
+    try {
+      await this.dynamoDBService.updateScheduledMessage(
+        scheduleId,
+        'sending',
+        error instanceof MessageError
+          ? { status: 'failed', error: error.message }
+          : { lastError: error?.message || String(error) },
+      );
+    } catch (updateError) {
+      console.error(
+        `Error guardando el fallo del mensaje programado ${scheduleId}:`,
+        updateError,
+      );
+    }
+  }
+
+  private async getOwnSchedule(
+    conversationId: string,
+    scheduleId: string,
+    senderId: string,
+  ) {
+    const schedule = await this.dynamoDBService.getScheduledMessage(scheduleId);
+    if (
+      !schedule ||
+      schedule.conversationId !== conversationId ||
+      schedule.senderId !== senderId
+    ) {
+      throw new NotFoundException('Mensaje programado no encontrado');
+    }
+    return schedule;
+  }
+
+  private async updatePending(
+    scheduleId: string,
+    changes: Record<string, any>,
+  ) {
+    const updated = await this.dynamoDBService.updateScheduledMessage(
+      scheduleId,
+      'pending',
+      changes,
+    );
+    if (!updated) {
+      throw new ConflictException(
+        'El mensaje programado ya se envió o fue cancelado',
+      );
+    }
+    return updated;
+  }
+
+  private parseSendAt(sendAt: string): string {
+    const date = new Date(sendAt);
+    if (!sendAt || isNaN(date.getTime())) {
+      throw new BadRequestException('sendAt debe ser una fecha ISO 8601');
+    }
+    if (date.getTime() <= Date.now()) {
+      throw new BadRequestException('sendAt debe ser una fecha futura');
+    }
+    return date.toISOString();
+  }
+}
@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { SearchService } from './search.service';
+
+const entry = (
+  conversationId: string,
+  messageId: string,
+  timestamp: string,
+) => ({
+  conversationId,
+  messageId,
+  senderId: 'bob',
+  timestamp,
+});
+
+describe('SearchService', () => {
+  let dynamoDBService: Record<string, jest.Mock>;
+  let service: SearchService;
+
+  beforeEach(() => {
+    const messages: Record<string, any> = {
+      m1: { id: 'm1', conversationId: 'c1', content: 'Reunión mañana' },
+      m2: { id: 'm2', conversationId: 'c1', content: 'Reunión el lunes' },
+      m3: { id: 'm3', conversationId: 'c2', content: 'reunion mañana' },
+    };
+    const index: Record<string, any[]> = {
+      'c1:reunion': [
+        entry('c1', 'm1', '2025-01-01T10:00:00.000Z'),
+        entry('c1', 'm2', '2025-01-02T10:00:00.000Z'),
+      ],
+      'c1:man': [entry('c1', 'm1', '2025-01-01T10:00:00.000Z')],
+      'c2:reunion': [entry('c2', 'm3', '2025-01-03T10:00:00.000Z')],
+      'c2:man': [entry('c2', 'm3', '2025-01-03T10:00:00.000Z')],
+    };
+
+    dynamoDBService = {
+      getUserConversations: jest.fn().mockResolvedValue([{ id: 'c1' }]),
+      getSearchEntries: jest.fn((conversationId: string, prefix: string) =>
+        Promise.resolve(index[`${conversationId}:${prefix}`] || []),
+      ),
+      getHiddenMessageIds: jest.fn().mockResolvedValue(new Set()),
+      getMessage: jest.fn((id: string) => Promise.resolve(messages[id])),
+    };
+    service = new SearchService(
+      dynamoDBService as unknown as DynamoDBService,
+      {
+        assertParticipant: jest.fn().mockResolvedValue(undefined),
+      } as unknown as ConversationAccessService,
+    );
+  });
+
+  it('only matches messages with every term in the caller conversations', async () => {
+    const { results, hasMore, truncated } = await service.searchMessages(
+      'alice',
+      'reunion man',
+      {},
+      { limit: 10 },
+    );
+
+    expect(results.map((result) => result.message.id)).toEqual(['m1']);
+    expect(results[0].snippet).toBe('Reunión mañana');
+    expect(hasMore).toBe(false);
+    expect(truncated).toBe(false);
+    expect(dynamoDBService.getSearchEntries).not.toHaveBeenCalledWith(
+      'c2',
+      expect.anything(),
+    );
+  });
+
+  it('pages from newest to oldest', async () => {
+    const first = await service.searchMessages(
+      'alice',
+      'Reunión',
+      {},
+      { limit: 1 },
+    );
+    expect(first.results.map((result) => result.message.id)).toEqual(['m2']);
+    expect(first.hasMore).toBe(true);
+
+    const second = await service.searchMessages(
+      'alice',
+      'Reunión',
+      {},
+      {
+        limit: 1,
+        startAfter: { id: 'm2', timestamp: '2025-01-02T10:00:00.000Z' },
+      },
+    );
+    expect(second.results.map((result) => result.message.id)).toEqual(['m1']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('requires longer prefixes when searching every conversation', async () => {
+    await expect(
+      service.searchMessages('alice', 'reunion ma', {}, { limit: 10 }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.searchMessages(
+        'alice',
+        'ma',
+        { conversationId: 'c1' },
+        { limit: 10 },
+      ),
+    ).resolves.toMatchObject({ results: [] });
+  });
+
+  it('reports when a term has more index entries than are read', async () => {
+    dynamoDBService.getSearchEntries.mockImplementation(
+      (conversationId: string, prefix: string, maxEntries: number) =>
+        Promise.resolve(
+          Array.from({ length: maxEntries }, (_, i) =>
+            entry('c1', `r${i}`, '2025-01-01T10:00:00.000Z'),
+          ),
+        ),
+    );
+    dynamoDBService.getMessage.mockImplementation((id: string) =>
+      Promise.resolve({ id, conversationId: 'c1', content: 'Reunión' }),
+    );
+
+    const { results, truncated } = await service.searchMessages(
+      'alice',
+      'reunion',
+      {},
+      { limit: 1 },
+    );
+    expect(results).toHaveLength(1);
+    expect(truncated).toBe(true);
+  });
+});
@@ -0,0 +1,204 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+import { ConversationAccessService } from './conversation-access.service';
+import { MessageCursor, encodeMessageCursor } from '../utils/message-cursor';
+import {
+  SearchSnippet,
+  buildSnippet,
+  getSearchableText,
+  tokenize,
+} from '../utils/search-text';
+
+export interface MessageSearchFilters {
+  conversationId?: string;
+  senderId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface MessageSearchResult extends SearchSnippet {
+  message: any;
+}
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_QUERY_TERMS = 5;
+// Sin `conversationId` se consulta cada conversación del usuario, así que se
+// exigen prefijos más largos
+const MIN_GLOBAL_TERM_LENGTH = 3;
+// Entradas del índice leídas por término y conversación
+const MAX_ENTRIES_PER_TERM = 1000;
+
+@Injectable()
+export class SearchService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  /**
+   * Busca en las conversaciones activas del usuario los mensajes que
+   * contienen todos los términos de `query` (cada uno como prefijo de alguna
+   * palabra). Los resultados van del más reciente al más antiguo.
+   */
+  async searchMessages(
+    userId: string,
+    query: string,
+    filters: MessageSearchFilters,
+    page: { limit: number; startAfter?: MessageCursor },
+  ): Promise<{
+    results: MessageSearchResult[];
+    cursor: string | null;
+    hasMore: boolean;
+    truncated: boolean;
+  }> {
+    const terms = tokenize((query || '').slice(0, MAX_QUERY_LENGTH));
+    if (terms.length === 0) {
+      throw new BadRequestException(
+        'q debe contener al menos una palabra de 2 caracteres',
+      );
+    }
+    if (terms.length > MAX_QUERY_TERMS) {
+      throw new BadRequestException(
+        `q admite como máximo ${MAX_QUERY_TERMS} palabras`,
+      );
+    }
+    if (
+      !filters.conversationId &&
+      terms.some((term) => term.length < MIN_GLOBAL_TERM_LENGTH)
+    ) {
+      throw new BadRequestException(
+        `Sin conversationId, cada palabra de q debe tener al menos ${MIN_GLOBAL_TERM_LENGTH} caracteres`,
+      );
+    }
+    const from = this.parseDate(filters.from, 'from');
+    const to = this.parseDate(filters.to, 'to');
+
+    let conversationIds: string[];
+    if (filters.conversationId) {
+      await this.conversationAccessService.assertParticipant(
+        filters.conversationId,
+        userId,
+      );
+      conversationIds = [filters.conversationId];
+    } else {
+      const conversations =
+        await this.dynamoDBService.getUserConversations(userId);
+      conversationIds = conversations.map((conversation) => conversation.id);
+    }
+
+    const candidates: any[] = [];
+    let truncated = false;
+    for (const conversationId of conversationIds) {
+      const found = await this.findMatches(conversationId, terms);
+      candidates.push(...found.matches);
+      truncated = truncated || found.truncated;
+    }
+
+    const startAfter = page.startAfter;
+    const sorted = candidates
+      .filter(
+        (entry) =>
+          (!filters.senderId || entry.senderId === filters.senderId) &&
+          (!from || entry.timestamp >= from) &&
+          (!to || entry.timestamp <= to) &&
+          (!startAfter ||
+            entry.timestamp < startAfter.timestamp ||
+            (entry.timestamp === startAfter.timestamp &&
+              entry.messageId < startAfter.id)),
+      )
+      .sort((a, b) =>
+        a.timestamp === b.timestamp
+          ? Number(a.messageId < b.messageId) -
+            Number(a.messageId > b.messageId)
+          : Number(a.timestamp < b.timestamp) -
+            Number(a.timestamp > b.timestamp),
+      );
+
+    // El índice puede ir por detrás de los mensajes (borrados, ocultos o
+    // editados), así que cada candidato se comprueba contra su estado actual
+    const results: MessageSearchResult[] = [];
+    let examined = 0;
+    while (results.length < page.limit && examined < sorted.length) {
+      const batch = sorted.slice(
+        examined,
+        examined + page.limit - results.length,
+      );
+      examined += batch.length;
+
+      const hiddenIds = await this.dynamoDBService.getHiddenMessageIds(
+        batch.map((entry) => entry.messageId),
+        userId,
+      );
+      for (const entry of batch) {
+        if (hiddenIds.has(entry.messageId)) {
+          continue;
+        }
+        const message = await this.dynamoDBService.getMessage(entry.messageId);
+        const text = getSearchableText(message);
+        const snippet = buildSnippet(text, terms);
+        if (snippet.highlights.length > 0) {
+          results.push({ message, ...snippet });
+        }
+      }
+    }
+
+    const last = sorted[examined - 1];
+    return {
+      results,
+      cursor: last
+        ? encodeMessageCursor({ id: last.messageId, timestamp: last.timestamp })
+        : null,
+      hasMore: examined < sorted.length,
+      truncated,
+    };
+  }
+
+  /**
+   * Mensajes de la conversación que tienen alguna palabra por cada término.
+   * `truncated` indica que algún término tenía más entradas de las que se
+   * leen, así que pueden faltar coincidencias.
+   */
+  private async findMatches(
+    conversationId: string,
+    terms: string[],
+  ): Promise<{ matches: any[]; truncated: boolean }> {
+    let matches: Map<string, any> | null = null;
+    let truncated = false;
+
+    for (const term of terms) {
+      // Se pide una entrada de más para saber si quedaban otras sin leer
+      const entries = await this.dynamoDBService.getSearchEntries(
+        conversationId,
+        term,
+        MAX_ENTRIES_PER_TERM + 1,
+      );
+      if (entries.length > MAX_ENTRIES_PER_TERM) {
+        truncated = true;
+        entries.length = MAX_ENTRIES_PER_TERM;
+      }
+      const next = new Map<string, any>();
+      for (const entry of entries) {
+        if (!matches || matches.has(entry.messageId)) {
+          next.set(entry.messageId, entry);
+        }
+      }
+      matches = next;
+      if (matches.size === 0) {
+        break;
+      }
+    }
+
+    return { matches: [...(matches?.values() || [])], truncated };
+  }
+
+  private parseDate(value: string | undefined, name: string): string | null {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} debe ser una fecha ISO 8601`);
+    }
+    return date.toISOString();
+  }
+}
@@ -0,0 +1,58 @@
+import { DiscoveryService } from '@nestjs/core';
+import {
+  SLASH_COMMANDS,
+  SlashCommandContext,
+  SlashCommandHandler,
+} from '../commands/slash-command.interface';
+import { SlashCommandsService } from './slash-commands.service';
+
+describe('SlashCommandsService', () => {
+  let execute: jest.Mock;
+  let reply: jest.Mock;
+  let service: SlashCommandsService;
+  let context: SlashCommandContext;
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue(undefined);
+    reply = jest.fn();
+    const handler: SlashCommandHandler = {
+      name: 'rename',
+      aliases: ['nombre'],
+      usage: '/rename Nuevo nombre',
+      description: 'Cambia el nombre del grupo',
+      execute,
+    };
+    service = new SlashCommandsService({
+      getProviders: () => [
+        { token: SLASH_COMMANDS, instance: [handler] },
+        { token: 'OtherService', instance: {} },
+      ],
+    } as unknown as DiscoveryService);
+    service.onModuleInit();
+    context = { reply } as unknown as SlashCommandContext;
+  });
+
+  it('parses commands and leaves paths and plain text alone', () => {
+    expect(service.parse('  /Rename  Equipo  Rojo ')).toEqual({
+      name: 'rename',
+      args: 'Equipo  Rojo',
+    });
+    expect(service.parse('/topic')).toEqual({ name: 'topic', args: '' });
+    expect(service.parse('/usr/local/bin')).toBeNull();
+    expect(service.parse('hola /rename')).toBeNull();
+  });
+
+  it('dispatches to handlers registered through the provider token', async () => {
+    await service.execute('nombre', context);
+    expect(execute).toHaveBeenCalledWith(context);
+
+    await service.execute('help', context);
+    expect(reply).toHaveBeenCalledWith(
+      expect.stringContaining('/rename Nuevo nombre'),
+    );
+
+    await expect(service.execute('nope', context)).rejects.toMatchObject({
+      code: 'UNKNOWN_COMMAND',
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import {
+  SLASH_COMMANDS,
+  SlashCommandContext,
+  SlashCommandHandler,
+} from '../commands/slash-command.interface';
+import { MessageError } from '../utils/message-ack';
+
+export interface ParsedSlashCommand {
+  name: string;
+  args: string;
+}
+
+// `/nombre argumentos`; `/ruta/a/algo` no es un comando
+const COMMAND_PATTERN = /^\/([a-zA-Z][\w-]*)(?:\s+([\s\S]*))?$/;
+
+@Injectable()
+export class SlashCommandsService implements OnModuleInit {
+  private readonly handlers = new Map<string, SlashCommandHandler>();
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      if (wrapper.token !== SLASH_COMMANDS || !wrapper.instance) {
+        continue;
+      }
+      const instance = wrapper.instance as
+        | SlashCommandHandler
+        | SlashCommandHandler[];
+      (Array.isArray(instance) ? instance : [instance]).forEach((handler) =>
+        this.register(handler),
+      );
+    }
+  }
+
+  register(handler: SlashCommandHandler) {
+    for (const name of [handler.name, ...(handler.aliases || [])]) {
+      const key = name.toLowerCase();
+      if (key === 'help' || this.handlers.has(key)) {
+        throw new Error(`El comando /${key} ya está registrado`);
+      }
+      this.handlers.set(key, handler);
+    }
+  }
+
+  parse(content: unknown): ParsedSlashCommand | null {
+    if (typeof content !== 'string') {
+      return null;
+    }
+    const match = content.trim().match(COMMAND_PATTERN);
+    return match
+      ? { name: match[1].toLowerCase(), args: (match[2] || '').trim() }
+      : null;
+  }
+
+  /**
+   * Ejecuta el comando. `/help` lo resuelve el propio servicio con la lista
+   * de comandos registrados.
+   */
+  async execute(name: string, context: SlashCommandContext): Promise<void> {
+    if (name === 'help') {
+      context.reply(this.getHelp());
+      return;
+    }
+
+    const handler = this.handlers.get(name);
+    if (!handler) {
+      throw new MessageError(
+        'UNKNOWN_COMMAND',
+        `Comando desconocido: /${name}. Escribe /help para ver los disponibles`,
+      );
+    }
+    await handler.execute(context);
+  }
+
+  private getHelp(): string {
+    return [...new Set(this.handlers.values())]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((handler) => `${handler.usage}: ${handler.description}`)
+      .concat('/help: Muestra esta ayuda')
+      .join('\n');
+  }
+}
@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DynamoDBService } from './dynamodb.service';
+import { SyncService } from './sync.service';
+
+const cursorAt = (changeId: string) =>
+  Buffer.from(changeId).toString('base64url');
+
+describe('SyncService', () => {
+  let dynamoDBService: Record<string, jest.Mock>;
+  let service: SyncService;
+
+  beforeEach(() => {
+    const recent = new Date(Date.now() - 60 * 1000).toISOString();
+    dynamoDBService = {
+      getUserChangesPage: jest.fn().mockResolvedValue({
+        items: [
+          {
+            changeId: `${recent}#1`,
+            type: 'message',
+            conversationId: 'c1',
+            messageId: 'm1',
+          },
+          {
+            changeId: `${recent}#2`,
+            type: 'message',
+            conversationId: 'c1',
+            messageId: 'm1',
+          },
+          {
+            changeId: `${recent}#3`,
+            type: 'message',
+            conversationId: 'c1',
+            messageId: 'm2',
+          },
+          {
+            changeId: `${recent}#4`,
+            type: 'membership',
+            conversationId: 'c2',
+            targetUserId: 'alice',
+          },
+        ],
+        hasMore: false,
+      }),
+      getHiddenMessageIds: jest.fn().mockResolvedValue(new Set()),
+      getMessage: jest.fn((id: string) =>
+        Promise.resolve(
+          id === 'm1'
+            ? { id: 'm1', conversationId: 'c1', content: 'editado' }
+            : { id: 'm2', conversationId: 'c1', isDeleted: true },
+        ),
+      ),
+      getConversationParticipants: jest
+        .fn()
+        .mockResolvedValue([{ userId: 'bob' }]),
+      getParticipant: jest.fn((conversationId: string) =>
+        Promise.resolve(
+          conversationId === 'c1'
+            ? { userId: 'alice', unreadCount: 2, lastReadAt: recent }
+            : { userId: 'alice', isActive: false },
+        ),
+      ),
+    };
+
+    service = new SyncService(
+      dynamoDBService as unknown as DynamoDBService,
+      { get: () => undefined } as unknown as ConfigService,
+    );
+  });
+
+  it('collapses the change log into the current state', async () => {
+    const since = cursorAt(new Date(Date.now() - 5 * 60 * 1000).toISOString());
+    const result = await service.getChangesSince('alice', since);
+
+    expect(result.resetRequired).toBe(false);
+    expect(result.messages).toEqual([
+      { id: 'm1', conversationId: 'c1', content: 'editado' },
+    ]);
+    expect(result.deletedMessages).toEqual([
+      { id: 'm2', conversationId: 'c1' },
+    ]);
+    expect(result.memberships).toEqual([
+      { conversationId: 'c2', isParticipant: false, participants: [] },
+    ]);
+    expect(result.readStates).toEqual([
+      expect.objectContaining({ conversationId: 'c1', unreadCount: 2 }),
+    ]);
+    expect(dynamoDBService.getMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks for a full reload without a cursor or with an expired one', async () => {
+    const expired = cursorAt('2020-01-01T00:00:00.000Z#x');
+
+    for (const since of [undefined, expired]) {
+      const result = await service.getChangesSince('alice', since);
+      expect(result.resetRequired).toBe(true);
+      expect(result.cursor).toEqual(expect.any(String));
+    }
+    expect(dynamoDBService.getUserChangesPage).not.toHaveBeenCalled();
+  });
+
+  it('keeps a cursor that is not yet settled', async () => {
+    const since = cursorAt(
+      `${new Date(Date.now() + 60 * 1000).toISOString()}#x`,
+    );
+    const result = await service.getChangesSince('alice', since);
+
+    expect(result).toMatchObject({
+      cursor: since,
+      hasMore: false,
+      resetRequired: false,
+      messages: [],
+    });
+    expect(dynamoDBService.getUserChangesPage).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(
+      service.getChangesSince('alice', 'not-a-cursor'),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
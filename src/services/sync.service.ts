@@ -0,0 +1,167 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DynamoDBService } from './dynamodb.service';
+
+export interface SyncResult {
+  cursor: string;
+  hasMore: boolean;
+  resetRequired: boolean;
+  messages: any[];
+  deletedMessages: { id: string; conversationId: string }[];
+  memberships: {
+    conversationId: string;
+    isParticipant: boolean;
+    role?: string;
+    participants: { userId: string; role: string }[];
+  }[];
+  readStates: {
+    conversationId: string;
+    unreadCount: number;
+    mentionCount: number;
+    lastReadAt: string;
+  }[];
+}
+
+// Los cambios más recientes se dejan para la siguiente llamada, por si otra
+// instancia todavía está escribiendo alguno con una fecha anterior
+const SETTLE_MS = 2000;
+
+@Injectable()
+export class SyncService {
+  private readonly retentionDays: number;
+  private readonly pageSize: number;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly configService: ConfigService,
+  ) {
+    this.retentionDays =
+      this.configService.get('app.sync.changeRetentionDays') || 7;
+    this.pageSize = this.configService.get('app.sync.pageSize') || 500;
+  }
+
+  /**
+   * Cambios de todas las conversaciones del usuario desde `since`. Sin cursor,
+   * o con uno más antiguo que la retención del registro, se devuelve
+   * `resetRequired` y un cursor nuevo: el cliente debe recargar todo y
+   * sincronizar a partir de él.
+   */
+  async getChangesSince(userId: string, since?: string): Promise<SyncResult> {
+    const settledBefore = new Date(Date.now() - SETTLE_MS).toISOString();
+    const retentionCutoff = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    const afterChangeId = since ? this.decodeCursor(since) : null;
+    if (since && !afterChangeId) {
+      throw new BadRequestException('since no es un cursor válido');
+    }
+    if (!afterChangeId || afterChangeId < retentionCutoff) {
+      return this.emptyResult(this.encodeCursor(settledBefore), true);
+    }
+    // Cursor dentro del margen de asentamiento (o de un reloj adelantado): no
+    // hay nada asentado después de él todavía
+    if (afterChangeId >= settledBefore) {
+      return this.emptyResult(this.encodeCursor(afterChangeId), false);
+    }
+
+    const page = await this.dynamoDBService.getUserChangesPage(userId, {
+      afterChangeId,
+      beforeChangeId: settledBefore,
+      limit: this.pageSize,
+    });
+
+    const messageIds = new Map<string, string>();
+    const membershipConversations = new Set<string>();
+    const touchedConversations = new Set<string>();
+    for (const change of page.items) {
+      touchedConversations.add(change.conversationId);
+      if (change.type === 'message') {
+        messageIds.set(change.messageId, change.conversationId);
+      } else if (change.type === 'membership') {
+        membershipConversations.add(change.conversationId);
+      }
+    }
+
+    const result = this.emptyResult(
+      page.hasMore
+        ? this.encodeCursor(page.items[page.items.length - 1].changeId)
+        : this.encodeCursor(settledBefore),
+      false,
+    );
+    result.hasMore = page.hasMore;
+
+    const hiddenIds = await this.dynamoDBService.getHiddenMessageIds(
+      [...messageIds.keys()],
+      userId,
+    );
+    for (const [messageId, conversationId] of messageIds) {
+      const message = await this.dynamoDBService.getMessage(messageId);
+      if (!message || message.isDeleted || hiddenIds.has(messageId)) {
+        result.deletedMessages.push({ id: messageId, conversationId });
+      } else {
+        result.messages.push(message);
+      }
+    }
+
+    for (const conversationId of membershipConversations) {
+      const participants =
+        await this.dynamoDBService.getConversationParticipants(conversationId);
+      const self = participants.find((p) => p.userId === userId);
+      result.memberships.push({
+        conversationId,
+        isParticipant: !!self,
+        ...(self ? { role: self.role || 'member' } : {}),
+        participants: self
+          ? participants.map((p) => ({
+              userId: p.userId,
+              role: p.role || 'member',
+            }))
+          : [],
+      });
+    }
+
+    for (const conversationId of touchedConversations) {
+      const participant = await this.dynamoDBService.getParticipant(
+        conversationId,
+        userId,
+      );
+      if (
+        !participant ||
+        participant.isActive === false ||
+        participant.deletedAt
+      ) {
+        continue;
+      }
+      result.readStates.push({
+        conversationId,
+        unreadCount: participant.unreadCount || 0,
+        mentionCount: participant.mentionCount || 0,
+        lastReadAt: participant.lastReadAt,
+      });
+    }
+
+    return result;
+  }
+
+  private emptyResult(cursor: string, resetRequired: boolean): SyncResult {
+    return {
+      cursor,
+      hasMore: false,
+      resetRequired,
+      messages: [],
+      deletedMessages: [],
+      memberships: [],
+      readStates: [],
+    };
+  }
+
+  private encodeCursor(changeId: string): string {
+    return Buffer.from(changeId).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): string | null {
+    const changeId = Buffer.from(cursor, 'base64url').toString('utf8');
+    return isNaN(Date.parse(changeId.split('#')[0])) ? null : changeId;
+  }
+}
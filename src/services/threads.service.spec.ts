@@ -0,0 +1,60 @@
+import { ConversationAccessService } from './conversation-access.service';
+import { DynamoDBService } from './dynamodb.service';
+import { ThreadsService } from './threads.service';
+
+describe('ThreadsService', () => {
+  const root = { id: 'r1', conversationId: 'c1', senderId: 'alice' };
+  let records: Record<string, { userId: string; unfollowedAt?: string }>;
+  let service: ThreadsService;
+
+  beforeEach(() => {
+    records = {};
+    const dynamoDBService = {
+      recordThreadReply: jest
+        .fn()
+        .mockResolvedValue({ replyCount: 1, lastReplyAt: 't' }),
+      putThreadFollower: jest.fn(
+        (rootId: string, userId: string, _c: string, onlyIfNew = false) => {
+          if (!onlyIfNew || !records[userId]) {
+            records[userId] = { userId };
+          }
+          return Promise.resolve();
+        },
+      ),
+      unfollowThread: jest.fn((rootId: string, userId: string) => {
+        records[userId] = { userId, unfollowedAt: 't' };
+        return Promise.resolve();
+      }),
+      getThreadFollowers: jest.fn(() =>
+        Promise.resolve(
+          Object.values(records).filter((record) => !record.unfollowedAt),
+        ),
+      ),
+    };
+
+    service = new ThreadsService(
+      dynamoDBService as unknown as DynamoDBService,
+      {
+        isParticipant: jest.fn().mockResolvedValue(true),
+      } as unknown as ConversationAccessService,
+    );
+  });
+
+  it('keeps explicit unfollows when someone else replies', async () => {
+    await service.registerReply(root, { senderId: 'bob', timestamp: 't' });
+    await service.unfollow(root, 'alice');
+
+    const { followerIds } = await service.registerReply(root, {
+      senderId: 'carol',
+      timestamp: 't',
+    });
+
+    expect(followerIds.sort()).toEqual(['bob', 'carol']);
+
+    await service.follow(root, 'alice');
+    expect(
+      (await service.registerReply(root, { senderId: 'bob', timestamp: 't' }))
+        .followerIds,
+    ).toContain('alice');
+  });
+});
@@ -0,0 +1,83 @@
+import { Injectable } from '@nestjs/common';
+import { DynamoDBService } from './dynamodb.service';
+import { ConversationAccessService } from './conversation-access.service';
+
+@Injectable()
+export class ThreadsService {
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly conversationAccessService: ConversationAccessService,
+  ) {}
+
+  /**
+   * Los hilos son planos: responder a una respuesta añade el mensaje al hilo
+   * de su raíz.
+   */
+  async resolveRoot(message: any): Promise<any> {
+    const rootId = message.threadRootId || message.replyTo;
+    if (!rootId) {
+      return message;
+    }
+
+    return (await this.dynamoDBService.getMessage(rootId)) || message;
+  }
+
+  /**
+   * Actualiza los contadores de la raíz, suscribe al autor de la raíz y al de
+   * la respuesta (solo la primera vez: quien dejó de seguir el hilo no vuelve
+   * a quedar suscrito) y devuelve los seguidores que siguen en la
+   * conversación.
+   */
+  async registerReply(root: any, reply: any) {
+    const updatedRoot = await this.dynamoDBService.recordThreadReply(
+      root,
+      reply.timestamp,
+    );
+
+    for (const userId of new Set<string>([root.senderId, reply.senderId])) {
+      await this.dynamoDBService.putThreadFollower(
+        root.id,
+        userId,
+        root.conversationId,
+        true,
+      );
+    }
+
+    const followers = await this.dynamoDBService.getThreadFollowers(root.id);
+    const followerIds: string[] = [];
+    for (const follower of followers) {
+      if (
+        await this.conversationAccessService.isParticipant(
+          root.conversationId,
+          follower.userId,
+        )
+      ) {
+        followerIds.push(follower.userId);
+      }
+    }
+
+    return {
+      threadRootId: root.id as string,
+      conversationId: root.conversationId as string,
+      replyCount: (updatedRoot.replyCount as number) || 0,
+      lastReplyAt: updatedRoot.lastReplyAt as string,
+      followerIds,
+    };
+  }
+
+  async follow(root: any, userId: string): Promise<void> {
+    await this.dynamoDBService.putThreadFollower(
+      root.id,
+      userId,
+      root.conversationId,
+    );
+  }
+
+  async unfollow(root: any, userId: string): Promise<void> {
+    await this.dynamoDBService.unfollowThread(
+      root.id,
+      userId,
+      root.conversationId,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { ConversationAccessError } from '../services/conversation-access.service';
+import { MessageError, toErrorAck } from './message-ack';
+
+describe('toErrorAck', () => {
+  it('keeps the code and message of known errors', () => {
+    expect(
+      toErrorAck(new MessageError('EDIT_WINDOW_EXPIRED', 'Fuera de plazo')),
+    ).toEqual({
+      ok: false,
+      errorCode: 'EDIT_WINDOW_EXPIRED',
+      error: 'Fuera de plazo',
+    });
+    expect(
+      toErrorAck(new ConversationAccessError('NOT_A_PARTICIPANT', 'No')),
+    ).toEqual({ ok: false, errorCode: 'NOT_A_PARTICIPANT', error: 'No' });
+  });
+
+  it('hides the details of unexpected errors', () => {
+    expect(toErrorAck(new Error('ECONNRESET'))).toEqual({
+      ok: false,
+      errorCode: 'INTERNAL_ERROR',
+      error: 'Error interno del servidor',
+    });
+  });
+});
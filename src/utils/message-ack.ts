@@ -0,0 +1,51 @@
+import {
+  ConversationAccessError,
+  ConversationAccessErrorCode,
+} from '../services/conversation-access.service';
+
+export type MessageErrorCode =
+  | ConversationAccessErrorCode
+  | 'INVALID_PAYLOAD'
+  | 'MESSAGE_NOT_FOUND'
+  | 'NOT_MESSAGE_OWNER'
+  | 'MESSAGE_DELETED'
+  | 'NOT_EDITABLE'
+  | 'EDIT_WINDOW_EXPIRED'
+  | 'POLL_CLOSED'
+  | 'SEND_IN_PROGRESS'
+  | 'UNKNOWN_COMMAND'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Respuesta (ack de Socket.IO) de los eventos que crean o modifican
+ * mensajes. `duplicate` indica que el `clientMessageId` ya se había enviado y
+ * `command`, que el mensaje era un comando de barra y no se ha guardado.
+ */
+export type MessageAck =
+  | { ok: true; message: any; duplicate?: boolean }
+  | { ok: true; command: string; duplicate?: boolean }
+  | { ok: false; errorCode: MessageErrorCode; error: string };
+
+export class MessageError extends Error {
+  constructor(
+    public readonly code: MessageErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+export function toErrorAck(error: unknown): MessageAck {
+  if (
+    error instanceof MessageError ||
+    error instanceof ConversationAccessError
+  ) {
+    return { ok: false, errorCode: error.code, error: error.message };
+  }
+  return {
+    ok: false,
+    errorCode: 'INTERNAL_ERROR',
+    error: 'Error interno del servidor',
+  };
+}
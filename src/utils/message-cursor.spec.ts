@@ -0,0 +1,21 @@
+import { decodeMessageCursor, encodeMessageCursor } from './message-cursor';
+
+describe('message cursor', () => {
+  it('round-trips the message key', () => {
+    const cursor = encodeMessageCursor({
+      id: 'message-1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+    });
+    expect(decodeMessageCursor(cursor)).toEqual({
+      id: 'message-1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeMessageCursor('not-a-cursor')).toBeNull();
+    expect(
+      decodeMessageCursor(Buffer.from('{"id":1}').toString('base64url')),
+    ).toBeNull();
+  });
+});
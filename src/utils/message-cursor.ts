@@ -0,0 +1,24 @@
+export interface MessageCursor {
+  id: string;
+  timestamp: string;
+}
+
+export function encodeMessageCursor(message: MessageCursor): string {
+  return Buffer.from(
+    JSON.stringify({ id: message.id, ts: message.timestamp }),
+  ).toString('base64url');
+}
+
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (typeof decoded?.id !== 'string' || typeof decoded?.ts !== 'string') {
+      return null;
+    }
+    return { id: decoded.id, timestamp: decoded.ts };
+  } catch {
+    return null;
+  }
+}
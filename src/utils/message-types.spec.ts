@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SendMessageDto } from '../dto/send-message.dto';
+import { FileStorageService } from '../services/file-storage.service';
+import { buildMessageBody, validateDto } from './message-types';
+
+describe('message types', () => {
+  it('validates the payload and stores its summary as content', () => {
+    expect(
+      buildMessageBody('location', {
+        payload: { latitude: 40.4168, longitude: -3.7038, name: 'Sol' },
+      }),
+    ).toEqual({
+      content: 'Sol',
+      payload: { latitude: 40.4168, longitude: -3.7038, name: 'Sol' },
+    });
+
+    expect(() =>
+      buildMessageBody('location', {
+        payload: { latitude: 140, longitude: -3.7038 },
+      }),
+    ).toThrow('Campos no válidos: latitude');
+    expect(() =>
+      buildMessageBody('contact', {
+        payload: { name: 'Ana', emails: ['ana@example.com'], extra: 1 },
+      }),
+    ).toThrow('Campos no válidos: extra');
+    expect(() =>
+      buildMessageBody('file', { content: '{"fileName":"a.pdf"}' }),
+    ).toThrow('requieren payload');
+  });
+
+  it('drops undefined fields from the payload of a non-image upload', async () => {
+    const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+    const fileStorageService = new FileStorageService({
+      get: (key: string) =>
+        key === 'app.fileStorage.local.path' ? uploadDir : undefined,
+    } as unknown as ConfigService);
+
+    try {
+      const fileData = await fileStorageService.uploadFile({
+        originalname: 'informe.pdf',
+        mimetype: 'application/pdf',
+        size: 4,
+        buffer: Buffer.from('%PDF'),
+      } as Express.Multer.File);
+      expect(fileData.thumbnailUrl).toBeUndefined();
+
+      const { content, payload } = buildMessageBody('file', {
+        payload: fileData,
+      });
+      expect(content).toBe('informe.pdf');
+      expect(payload).toEqual({
+        fileUrl: '/api/files/informe.pdf',
+        fileName: 'informe.pdf',
+        fileSize: 4,
+        fileType: 'application/pdf',
+      });
+      expect(Object.keys(payload!)).not.toContain('thumbnailUrl');
+    } finally {
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown and server-only types from clients', () => {
+    expect(() => buildMessageBody('sticker', { content: 'hola' })).toThrow(
+      'Tipo de mensaje no admitido',
+    );
+    expect(() =>
+      buildMessageBody('system', {
+        content: 'Ana salió del grupo',
+        payload: { action: 'member_left', actorId: 'ana' },
+      }),
+    ).toThrow('Tipo de mensaje no admitido');
+    expect(
+      buildMessageBody(
+        'system',
+        {
+          content: 'Ana salió del grupo',
+          payload: { action: 'member_left', actorId: 'ana' },
+        },
+        { allowServerOnly: true },
+      ).content,
+    ).toBe('Ana salió del grupo');
+    expect(() => buildMessageBody('text', { content: '  ' })).toThrow(
+      'El mensaje está vacío',
+    );
+    expect(() =>
+      validateDto(SendMessageDto, { messageType: 'text', content: 'hola' }),
+    ).toThrow('Campos no válidos: conversationId');
+  });
+});
@@ -0,0 +1,154 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import {
+  AudioPayloadDto,
+  ContactPayloadDto,
+  FilePayloadDto,
+  LocationPayloadDto,
+  SystemPayloadDto,
+} from '../dto/message-payload.dto';
+import { MessageError } from './message-ack';
+
+export interface MessageTypeDefinition {
+  /** DTO que valida `payload`. Los tipos sin DTO no llevan payload. */
+  payload?: ClassConstructor<object>;
+  /**
+   * Texto que se guarda como `content` a partir del payload, para vistas
+   * previas, búsqueda y avisos de no leídos. Sin él, `content` lo envía el
+   * cliente y es obligatorio.
+   */
+  summarize?: (payload: any) => string;
+  /** Prefijo de la vista previa al responder a un mensaje de este tipo */
+  label?: string;
+  /** Solo los crea el servidor */
+  serverOnly?: boolean;
+}
+
+/** `senderId` de los mensajes de sistema */
+export const SYSTEM_SENDER_ID = 'system';
+
+export const MESSAGE_TYPES: Record<string, MessageTypeDefinition> = {
+  text: {},
+  rich: {},
+  poll: {},
+  file: {
+    payload: FilePayloadDto,
+    summarize: (payload: FilePayloadDto) => payload.fileName,
+    label: 'Archivo',
+  },
+  audio: {
+    payload: AudioPayloadDto,
+    summarize: (payload: AudioPayloadDto) => payload.fileName,
+    label: 'Audio',
+  },
+  location: {
+    payload: LocationPayloadDto,
+    summarize: (payload: LocationPayloadDto) =>
+      payload.name ||
+      payload.address ||
+      `${payload.latitude}, ${payload.longitude}`,
+    label: 'Ubicación',
+  },
+  contact: {
+    payload: ContactPayloadDto,
+    summarize: (payload: ContactPayloadDto) => payload.name,
+    label: 'Contacto',
+  },
+  system: {
+    payload: SystemPayloadDto,
+    serverOnly: true,
+  },
+};
+
+/**
+ * Valida `value` con las reglas de class-validator de `dto`. Las propiedades
+ * que el DTO no declara se descartan.
+ */
+export function validateDto<T extends object>(
+  dto: ClassConstructor<T>,
+  value: unknown,
+  options: { forbidUnknown?: boolean } = {},
+): T {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new MessageError('INVALID_PAYLOAD', 'Se esperaba un objeto');
+  }
+
+  const instance = plainToInstance(dto, value);
+  const errors = validateSync(instance, {
+    whitelist: true,
+    forbidNonWhitelisted: !!options.forbidUnknown,
+  });
+  if (errors.length > 0) {
+    throw new MessageError(
+      'INVALID_PAYLOAD',
+      `Campos no válidos: ${errorPaths(errors).join(', ')}`,
+    );
+  }
+  return instance;
+}
+
+/**
+ * Comprueba el tipo, el contenido y el payload de un mensaje nuevo y
+ * devuelve lo que se guarda: en los tipos con payload, `content` es el
+ * resumen del payload.
+ */
+export function buildMessageBody(
+  messageType: string,
+  data: { content?: unknown; payload?: unknown },
+  options: { allowServerOnly?: boolean } = {},
+): { content: string; payload?: Record<string, any> } {
+  const definition = Object.prototype.hasOwnProperty.call(
+    MESSAGE_TYPES,
+    messageType,
+  )
+    ? MESSAGE_TYPES[messageType]
+    : undefined;
+  if (!definition || (definition.serverOnly && !options.allowServerOnly)) {
+    throw new MessageError(
+      'INVALID_PAYLOAD',
+      `Tipo de mensaje no admitido: ${messageType}`,
+    );
+  }
+
+  if (!definition.payload) {
+    if (data.payload !== undefined && data.payload !== null) {
+      throw new MessageError(
+        'INVALID_PAYLOAD',
+        `Los mensajes de tipo ${messageType} no admiten payload`,
+      );
+    }
+    if (typeof data.content !== 'string' || !data.content.trim()) {
+      throw new MessageError('INVALID_PAYLOAD', 'El mensaje está vacío');
+    }
+    return { content: data.content };
+  }
+
+  if (data.payload === undefined || data.payload === null) {
+    throw new MessageError(
+      'INVALID_PAYLOAD',
+      `Los mensajes de tipo ${messageType} requieren payload`,
+    );
+  }
+  // Se guarda como objeto plano y sin claves `undefined`: DynamoDB no
+  // serializa instancias de clases ni valores indefinidos
+  const payload = Object.fromEntries(
+    Object.entries(
+      validateDto(definition.payload, data.payload, { forbidUnknown: true }),
+    ).filter(([, value]) => value !== undefined),
+  );
+
+  if (definition.summarize) {
+    return { content: definition.summarize(payload), payload };
+  }
+  if (typeof data.content !== 'string' || !data.content.trim()) {
+    throw new MessageError('INVALID_PAYLOAD', 'El mensaje está vacío');
+  }
+  return { content: data.content, payload };
+}
+
+function errorPaths(errors: ValidationError[], parent = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    return error.children?.length ? errorPaths(error.children, path) : [path];
+  });
+}
@@ -0,0 +1,99 @@
+import { renderRichText } from './rich-text';
+
+describe('renderRichText', () => {
+  it('parses the supported Markdown subset', () => {
+    const { ast, plainText } = renderRichText(
+      'Hola **equipo**, revisad *el* `informe`:\n\n- [Enlace](https://example.com)\n- snake_case_name\n\n```ts\nconst a = 1;\n```',
+    );
+
+    expect(ast).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'Hola ' },
+          { type: 'bold', children: [{ type: 'text', text: 'equipo' }] },
+          { type: 'text', text: ', revisad ' },
+          { type: 'italic', children: [{ type: 'text', text: 'el' }] },
+          { type: 'text', text: ' ' },
+          { type: 'code', text: 'informe' },
+          { type: 'text', text: ':' },
+        ],
+      },
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          [
+            {
+              type: 'link',
+              url: 'https://example.com',
+              children: [{ type: 'text', text: 'Enlace' }],
+            },
+          ],
+          [{ type: 'text', text: 'snake_case_name' }],
+        ],
+      },
+      { type: 'code_block', language: 'ts', text: 'const a = 1;' },
+    ]);
+    expect(plainText).toBe(
+      'Hola equipo, revisad el informe:\n- Enlace\n- snake_case_name\nconst a = 1;',
+    );
+  });
+
+  it('strips HTML outside code and drops unsafe links', () => {
+    const { source, ast } = renderRichText(
+      '<script>alert(1)</script>Hola <b>tú</b> `<b>` [x](javascript:alert)',
+    );
+
+    expect(source).toBe('alert(1)Hola tú `<b>` [x](javascript:alert)');
+    expect(ast).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'alert(1)Hola tú ' },
+          { type: 'code', text: '<b>' },
+          { type: 'text', text: ' x' },
+        ],
+      },
+    ]);
+  });
+
+  it('does not let nested or unclosed tags survive the stripping', () => {
+    const { source, plainText } = renderRichText(
+      'hi <scr<script>ipt>alert(1)</script> <img src=x onerror=alert(1) a < b',
+    );
+
+    expect(source).not.toMatch(/<[a-zA-Z/!?]/);
+    expect(plainText).toBe('hi alert(1) img src=x onerror=alert(1) a < b');
+  });
+
+  it('does not treat an escaped backtick as the start of code', () => {
+    const { source, ast, plainText } = renderRichText(
+      'hola \\`<img src=x onerror=alert(1)>`',
+    );
+
+    expect(source).toBe('hola \\``');
+    expect(ast).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'hola ``' }] },
+    ]);
+    expect(plainText).toBe('hola ``');
+  });
+
+  it('strips HTML from text that the parser groups across lines', () => {
+    const { ast, plainText } = renderRichText(
+      'a `b\n`<img src=x onerror=alert(1)>` c',
+    );
+
+    expect(ast).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'a ' },
+          { type: 'code', text: 'b\n' },
+          { type: 'text', text: '` c' },
+        ],
+      },
+    ]);
+    expect(plainText).not.toMatch(/<[a-zA-Z/!?]/);
+  });
+});
@@ -0,0 +1,329 @@
+export type RichInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: RichInline[] }
+  | { type: 'italic'; children: RichInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: RichInline[] }
+  | { type: 'break' };
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | { type: 'code_block'; language?: string; text: string }
+  | { type: 'list'; ordered: boolean; items: RichInline[][] };
+
+export interface RichText {
+  source: string;
+  ast: RichBlock[];
+  plainText: string;
+}
+
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<\/?[a-zA-Z][^<>]*>/g;
+// `<` que podría abrir una etiqueta sin cerrar (`<img src=x onerror=...`)
+const TAG_OPEN_PATTERN = /<(?=[a-zA-Z/!?])/g;
+const FENCE_PATTERN = /^\s*```\s*([\w+-]*)\s*$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d{1,9}[.)]\s+(.*)$/;
+const LINK_PATTERN = /^\[([^\]\n]+)\]\(([^()\s]+)\)/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+const ESCAPABLE = '\\`*_[]()#+-.!';
+
+/**
+ * Interpreta el subconjunto de Markdown admitido en los mensajes `rich`:
+ * negrita, cursiva, código (en línea y en bloque), enlaces http(s)/mailto y
+ * listas. El HTML se elimina del texto fuera del código; dentro del código
+ * se conserva como texto literal.
+ */
+export function renderRichText(input: string): RichText {
+  const source = stripHtml(input.replace(/\r\n?/g, '\n'));
+  const ast = parseBlocks(source);
+  return { source, ast, plainText: toPlainText(ast) };
+}
+
+/**
+ * Quita las etiquetas HTML fuera de los bloques y fragmentos de código. Se
+ * repite hasta que no cambia nada, para que las etiquetas anidadas
+ * (`<scr<script>ipt>`) no se recompongan, y al final se eliminan los `<` que
+ * aún podrían abrir una etiqueta.
+ */
+export function stripHtml(source: string): string {
+  let inFence = false;
+  return source
+    .split('\n')
+    .map((line) => {
+      if (FENCE_PATTERN.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      if (inFence) {
+        return line;
+      }
+      return stripInlineHtml(line);
+    })
+    .join('\n');
+}
+
+/**
+ * Quita las etiquetas de una línea salvo en los fragmentos de código, que se
+ * reconocen igual que en `parseInline`: una comilla invertida escapada
+ * (`` \` ``) no abre código.
+ */
+function stripInlineHtml(line: string): string {
+  let result = '';
+  let text = '';
+
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+    if (char === '\\' && ESCAPABLE.includes(line[i + 1] ?? '')) {
+      text += line.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === '`') {
+      const end = line.indexOf('`', i + 1);
+      if (end > i + 1) {
+        result += stripTags(text) + line.slice(i, end + 1);
+        text = '';
+        i = end + 1;
+        continue;
+      }
+    }
+    text += char;
+    i++;
+  }
+  return result + stripTags(text);
+}
+
+function stripTags(text: string): string {
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(HTML_TAG_PATTERN, '');
+  } while (text !== previous);
+  return text.replace(TAG_OPEN_PATTERN, '');
+}
+
+function parseBlocks(source: string): RichBlock[] {
+  const lines = source.split('\n');
+  const blocks: RichBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'paragraph', children: parseInline(text) });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE_PATTERN.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({
+        type: 'code_block',
+        ...(fence[1] ? { language: fence[1] } : {}),
+        text: code.join('\n'),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_PATTERN.test(line);
+    if (ordered || BULLET_PATTERN.test(line)) {
+      flushParagraph();
+      const pattern = ordered ? ORDERED_PATTERN : BULLET_PATTERN;
+      const items: RichInline[][] = [];
+      for (; i < lines.length && pattern.test(lines[i]); i++) {
+        items.push(parseInline(lines[i].match(pattern)![1].trim()));
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (line.trim()) {
+      paragraph.push(line);
+    } else {
+      flushParagraph();
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+function parseInline(text: string): RichInline[] {
+  const nodes: RichInline[] = [];
+  let buffer = '';
+
+  const pushText = (value: string) => {
+    buffer += value;
+  };
+  const flushText = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      pushText(text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flushText();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flushText();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = rest.match(LINK_PATTERN);
+      if (link) {
+        flushText();
+        const children = parseInline(link[1]);
+        if (SAFE_URL_PATTERN.test(link[2])) {
+          nodes.push({ type: 'link', url: link[2], children });
+        } else {
+          nodes.push(...children);
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const delimiter = rest.startsWith(char + char) ? char + char : char;
+      const end = findClosingDelimiter(text, i, delimiter);
+      if (end !== -1) {
+        flushText();
+        const children = parseInline(text.slice(i + delimiter.length, end));
+        nodes.push(
+          delimiter.length === 2
+            ? { type: 'bold', children }
+            : { type: 'italic', children },
+        );
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    pushText(char);
+    i++;
+  }
+  flushText();
+
+  // Une los textos contiguos (por ejemplo, la etiqueta de un enlace no
+  // permitido) para que el AST quede normalizado. Los textos se limpian otra
+  // vez: un código que abarca varias líneas, un enlace o un énfasis pueden
+  // agrupar el texto de forma distinta a `stripHtml`
+  return nodes
+    .reduce<RichInline[]>((merged, node) => {
+      const previous = merged[merged.length - 1];
+      if (node.type === 'text' && previous?.type === 'text') {
+        previous.text += node.text;
+      } else {
+        merged.push(node);
+      }
+      return merged;
+    }, [])
+    .map((node) =>
+      node.type === 'text' ? { ...node, text: stripTags(node.text) } : node,
+    )
+    .filter((node) => node.type !== 'text' || node.text);
+}
+
+/**
+ * Posición del delimitador que cierra el énfasis abierto en `start`, o -1.
+ * El contenido no puede empezar ni acabar en espacio, y `_` no marca énfasis
+ * dentro de una palabra (snake_case).
+ */
+function findClosingDelimiter(
+  text: string,
+  start: number,
+  delimiter: string,
+): number {
+  const isWordChar = (char?: string) => !!char && /[\p{L}\p{N}]/u.test(char);
+  const contentStart = start + delimiter.length;
+
+  if (
+    /\s/.test(text[contentStart] ?? ' ') ||
+    (delimiter[0] === '_' && isWordChar(text[start - 1]))
+  ) {
+    return -1;
+  }
+
+  let end = text.indexOf(delimiter, contentStart + 1);
+  while (end !== -1) {
+    const afterEnd = text[end + delimiter.length];
+    if (
+      !/\s/.test(text[end - 1]) &&
+      afterEnd !== delimiter[0] &&
+      !(delimiter.length === 1 && text[end - 1] === delimiter) &&
+      !(delimiter[0] === '_' && isWordChar(afterEnd))
+    ) {
+      return end;
+    }
+    end = text.indexOf(delimiter, end + 1);
+  }
+  return -1;
+}
+
+function inlineText(nodes: RichInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+function toPlainText(blocks: RichBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return inlineText(block.children);
+        case 'code_block':
+          return block.text;
+        case 'list':
+          return block.items
+            .map(
+              (item, index) =>
+                `${block.ordered ? `${index + 1}.` : '-'} ${inlineText(item)}`,
+            )
+            .join('\n');
+      }
+    })
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,41 @@
+import { buildSnippet, getSearchableText, tokenize } from './search-text';
+
+describe('search text', () => {
+  it('folds accents and case into distinct terms', () => {
+    expect(tokenize('¿Qué tal la Canción? ¡Qué año, qué año!')).toEqual([
+      'que',
+      'tal',
+      'la',
+      'cancion',
+      'ano',
+    ]);
+  });
+
+  it('indexes file names and poll options', () => {
+    expect(
+      getSearchableText({
+        messageType: 'file',
+        content: 'informe_final.pdf',
+        payload: { fileUrl: '/api/files/a.pdf', fileName: 'informe_final.pdf' },
+      }),
+    ).toBe('informe_final.pdf');
+    expect(
+      getSearchableText({
+        messageType: 'poll',
+        content: '¿Dónde?',
+        poll: { question: '¿Dónde?', options: [{ text: 'Aquí' }] },
+      }),
+    ).toBe('¿Dónde? Aquí');
+    expect(getSearchableText({ content: 'hola', isDeleted: true })).toBe('');
+  });
+
+  it('highlights prefix matches inside the snippet', () => {
+    const text = `${'relleno '.repeat(10)}La reunión es mañana en Málaga`;
+    const { snippet, highlights } = buildSnippet(text, ['reun', 'malaga']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(
+      highlights.map(({ start, end }) => snippet.slice(start, end)),
+    ).toEqual(['reunión', 'Málaga']);
+  });
+});
@@ -0,0 +1,99 @@
+export interface SearchSnippet {
+  snippet: string;
+  highlights: { start: number; end: number }[];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+const MAX_TERMS_PER_MESSAGE = 200;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Minúsculas y sin acentos ("Canción" → "cancion", "año" → "ano"). Se hace
+ * carácter a carácter para que las posiciones coincidan con el texto
+ * original y se puedan resaltar las coincidencias.
+ */
+export function foldText(text: string): string {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    folded += text[i].normalize('NFD').charAt(0).toLowerCase().charAt(0);
+  }
+  return folded;
+}
+
+/**
+ * Términos distintos de un texto, ya normalizados. Se ignoran las palabras
+ * de una sola letra.
+ */
+export function tokenize(text: string): string[] {
+  const terms = new Set<string>();
+  for (const [word] of foldText(text).matchAll(WORD_PATTERN)) {
+    if (word.length < MIN_TERM_LENGTH) {
+      continue;
+    }
+    terms.add(word.slice(0, MAX_TERM_LENGTH));
+    if (terms.size === MAX_TERMS_PER_MESSAGE) {
+      break;
+    }
+  }
+  return [...terms];
+}
+
+/**
+ * Texto indexable de un mensaje: el contenido (que en los tipos con payload
+ * es su resumen, como el nombre del archivo), el texto plano en los `rich` y
+ * la pregunta y opciones en las encuestas.
+ */
+export function getSearchableText(message: any): string {
+  if (!message || message.isDeleted) {
+    return '';
+  }
+  if (message.rich) {
+    return message.rich.plainText;
+  }
+  if (message.poll) {
+    return [
+      message.poll.question,
+      ...message.poll.options.map((option: { text: string }) => option.text),
+    ].join(' ');
+  }
+  return typeof message.content === 'string' ? message.content : '';
+}
+
+/**
+ * Fragmento del texto alrededor de la primera coincidencia, con las
+ * posiciones (relativas al fragmento) de las palabras que empiezan por
+ * alguno de los términos buscados.
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+  const matches: { start: number; end: number }[] = [];
+  for (const match of foldText(text).matchAll(WORD_PATTERN)) {
+    if (terms.some((term) => match[0].startsWith(term))) {
+      matches.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  let start = 0;
+  if (matches.length && matches[0].start > SNIPPET_CONTEXT) {
+    start = text.lastIndexOf(' ', matches[0].start - SNIPPET_CONTEXT) + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.start < end)
+      .map((match) => ({
+        start: match.start + offset,
+        end: Math.min(match.end, end) + offset,
+      })),
+  };
+}